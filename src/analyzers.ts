@@ -0,0 +1,313 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as cp from "child_process";
+import type { ESLint, Rule } from "eslint";
+import { IssueImpact, IssueTextRange, SonarIssue, severityOrder } from "./issueModel";
+import { parseSarifReport } from "./reports";
+import { killProcessTree } from "./scanner";
+
+// Registry of the local analyzers behind the Local Analysis scopes. ESLint registers itself from
+// extension.ts, the sonarExtension.analyzers setting adds command line analyzers and adjusts built-in ones.
+
+export interface LocalAnalyzer {
+  // Diagnostic source and tree group of the analyzer's issues
+  name: string;
+  // Glob of the files to analyze, relative to the workspace folder
+  files: string;
+  exclude?: string;
+  // Stops its work and rejects with a CancellationError once the token is cancelled
+  analyze(files: string[], cwd: string, token?: vscode.CancellationToken): Promise<SonarIssue[]>;
+}
+
+// An entry of the sonarExtension.analyzers setting; one without command adjusts a built-in analyzer of that name
+interface AnalyzerSettings {
+  name: string;
+  enabled?: boolean;
+  files?: string;
+  exclude?: string;
+  command?: string;
+  format?: "eslint-json" | "sarif" | "regex";
+  pattern?: string;
+  // Seconds
+  timeout?: number;
+}
+
+const analyzerRegistry: Map<string, LocalAnalyzer> = new Map();
+
+export function registerAnalyzer(analyzer: LocalAnalyzer): vscode.Disposable {
+  analyzerRegistry.set(analyzer.name, analyzer);
+  return { dispose: () => analyzerRegistry.delete(analyzer.name) };
+}
+
+// Same limit as the output buffer of cp.exec before
+const maxOutputLength = 64 * 1024 * 1024;
+
+const outputSeverities: Record<string, string> = {
+  error: "CRITICAL",
+  fatal: "BLOCKER",
+  warning: "MAJOR",
+  warn: "MAJOR",
+  info: "MINOR",
+  information: "MINOR",
+  note: "MINOR",
+  hint: "INFO",
+};
+
+// Lines of a linter's output as issues, through a regex with named groups like a problem matcher:
+// file, line, column, endLine, endColumn (1-based), severity, code and message
+export function parseRegexOutput(output: string, pattern: RegExp, cwd: string, source: string): SonarIssue[] {
+  return output.split(/\r?\n/).flatMap((text) => {
+    const groups = pattern.exec(text)?.groups;
+    if (!groups?.file || !groups.line) { return []; }
+    const line = parseInt(groups.line, 10);
+    const column = groups.column ? parseInt(groups.column, 10) : undefined;
+    const textRange: IssueTextRange | undefined = column
+      ? {
+        startLine: line,
+        startOffset: column - 1,
+        endLine: groups.endLine ? parseInt(groups.endLine, 10) : line,
+        endOffset: groups.endColumn ? parseInt(groups.endColumn, 10) - 1 : column,
+      }
+      : undefined;
+    const severity = groups.severity?.toLowerCase() || "warning";
+    return [new SonarIssue(
+      groups.message?.trim() || text.trim(),
+      groups.code || source,
+      outputSeverities[severity] || (severityOrder.includes(severity.toUpperCase()) ? severity.toUpperCase() : "MAJOR"),
+      path.resolve(cwd, groups.file.trim()),
+      line,
+      { textRange, source }
+    )];
+  });
+}
+
+function runAnalyzerCommand(
+  command: string,
+  cwd: string,
+  timeoutSeconds: number,
+  token?: vscode.CancellationToken
+): Promise<{ exitCode: number; output: string; errors: string }> {
+  return new Promise((resolve, reject) => {
+    // In a process group of its own, so a timeout or a cancellation stops the linter and not just its shell
+    const child = cp.spawn(command, { cwd, shell: true, detached: process.platform !== "win32" });
+    let output = "";
+    let errors = "";
+    let failure: string | undefined;
+    const stop = (reason: string) => {
+      failure = failure || reason;
+      killProcessTree(child);
+    };
+    const collect = (append: (text: string) => void) => (data: Buffer) => {
+      append(data.toString());
+      if (output.length + errors.length > maxOutputLength) { stop("its output exceeds 64 MB"); }
+    };
+    child.stdout.on("data", collect((text) => { output += text; }));
+    child.stderr.on("data", collect((text) => { errors += text; }));
+
+    const timer = setTimeout(() => stop(`timed out after ${timeoutSeconds}s`), timeoutSeconds * 1000);
+    const cancellation = token?.onCancellationRequested(() => stop("cancelled"));
+    const settle = () => {
+      clearTimeout(timer);
+      cancellation?.dispose();
+    };
+    child.on("error", (error) => {
+      settle();
+      reject(error);
+    });
+    child.on("close", (code) => {
+      settle();
+      if (token?.isCancellationRequested) {
+        reject(new vscode.CancellationError());
+        return;
+      }
+      // Linters exit with 1 when they find problems, only a timeout or a killed process is a failure
+      if (failure || code === null) {
+        reject(new Error(failure || "the process was killed"));
+        return;
+      }
+      resolve({ exitCode: code, output, errors });
+    });
+  });
+}
+
+// Analyzer running a command line; ${file} runs it once per file, ${files} with batches of files, otherwise once for the folder
+function createCommandAnalyzer(settings: AnalyzerSettings & { command: string }): LocalAnalyzer {
+  const format = settings.format || "regex";
+  const pattern = settings.pattern ? new RegExp(settings.pattern) : undefined;
+  if (format === "regex" && !pattern) {
+    throw new Error(`Analyzer "${settings.name}" needs a pattern to read its output`);
+  }
+
+  const parse = (output: string, cwd: string): SonarIssue[] => {
+    switch (format) {
+      case "eslint-json":
+        return eslintResultIssues(JSON.parse(output || "[]"), settings.name);
+      case "sarif":
+        return parseSarifReport(JSON.parse(output || "{}"), cwd, () => settings.name);
+      default:
+        return parseRegexOutput(output, pattern!, cwd, settings.name);
+    }
+  };
+
+  return {
+    name: settings.name,
+    files: settings.files || "**/*",
+    exclude: settings.exclude,
+    analyze: async (files, cwd, token) => {
+      const quote = (file: string) => JSON.stringify(path.relative(cwd, file) || ".");
+      let commands: string[];
+      if (settings.command.includes("${file}")) {
+        commands = files.map((file) => settings.command.split("${file}").join(quote(file)));
+      } else if (settings.command.includes("${files}")) {
+        // Batches keep the command line under the length limits of the shells
+        commands = [];
+        for (let i = 0; i < files.length; i += 100) {
+          commands.push(settings.command.split("${files}").join(files.slice(i, i + 100).map(quote).join(" ")));
+        }
+      } else {
+        commands = files.length > 0 ? [settings.command] : [];
+      }
+
+      const wanted = new Set(files);
+      const issues: SonarIssue[] = [];
+      for (const command of commands) {
+        const run = await runAnalyzerCommand(command, cwd, settings.timeout || 120, token);
+        try {
+          issues.push(...parse(run.output, cwd));
+        } catch (error) {
+          const details = run.errors.trim() || (error instanceof Error ? error.message : String(error));
+          throw new Error(`could not read the output of "${command}" (exit code ${run.exitCode}): ${details}`);
+        }
+      }
+      // Whole-project commands report files outside the analyzed set too
+      return issues.filter((issue) => wanted.has(issue.filePath));
+    },
+  };
+}
+
+// Registered analyzers adjusted by the folder's settings, followed by the command line analyzers of the settings
+function resolveAnalyzers(folder: vscode.WorkspaceFolder): LocalAnalyzer[] {
+  const entries = vscode.workspace.getConfiguration("sonarExtension", folder.uri).get<AnalyzerSettings[]>("analyzers", []);
+  const adjustments = new Map(entries.filter((entry) => !entry.command).map((entry) => [entry.name, entry]));
+
+  const builtIns = Array.from(analyzerRegistry.values())
+    .filter((analyzer) => adjustments.get(analyzer.name)?.enabled !== false)
+    .map((analyzer) => {
+      const adjustment = adjustments.get(analyzer.name);
+      return {
+        ...analyzer,
+        files: adjustment?.files || analyzer.files,
+        exclude: adjustment?.exclude ?? analyzer.exclude,
+      };
+    });
+
+  const commandAnalyzers = entries
+    .filter((entry): entry is AnalyzerSettings & { command: string } => !!entry.command && entry.enabled !== false)
+    .flatMap((entry) => {
+      try {
+        return [createCommandAnalyzer(entry)];
+      } catch (error) {
+        vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+        return [];
+      }
+    });
+  return [...builtIns, ...commandAnalyzers];
+}
+
+// The analyzer's files among the given open files, or in the whole folder without them
+async function analyzerFiles(folder: vscode.WorkspaceFolder, analyzer: LocalAnalyzer, openFiles?: string[]): Promise<string[]> {
+  const exclude = analyzer.exclude ?? "**/node_modules/**";
+  if (openFiles) {
+    return openFiles.filter((file) => {
+      const document = vscode.workspace.textDocuments.find((candidate) => candidate.uri.fsPath === file);
+      const matches = (glob: string) => !!document && vscode.languages.match({ pattern: new vscode.RelativePattern(folder, glob) }, document) > 0;
+      return matches(analyzer.files) && !matches(exclude);
+    });
+  }
+  const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, analyzer.files), exclude);
+  return uris.map((uri) => uri.fsPath);
+}
+
+// Every analyzer reports on its own, one failing does not hide the issues of the others
+export async function runLocalAnalyzers(
+  folder: vscode.WorkspaceFolder,
+  openFiles: string[] | undefined,
+  token: vscode.CancellationToken
+): Promise<{ issues: SonarIssue[]; success: boolean }> {
+  const issues: SonarIssue[] = [];
+  let success = false;
+  for (const analyzer of resolveAnalyzers(folder)) {
+    if (token.isCancellationRequested) { break; }
+    try {
+      const files = await analyzerFiles(folder, analyzer, openFiles);
+      if (files.length > 0) {
+        issues.push(...await analyzer.analyze(files, folder.uri.fsPath, token));
+      }
+      success = true;
+    } catch (err: unknown) {
+      if (err instanceof vscode.CancellationError) { break; }
+      vscode.window.showErrorMessage(`${analyzer.name} failed: ${err instanceof Error ? err.message : String(err)}`);
+      console.error(err);
+    }
+  }
+  return { issues, success };
+}
+
+// Also reads the JSON output of `eslint -f json` run by a command line analyzer
+export function eslintResultIssues(
+  results: ESLint.LintResult[],
+  source: string,
+  rulesMeta: Record<string, Rule.RuleMetaData> = {},
+  lintedVersions: Map<string, number> = new Map()
+): SonarIssue[] {
+  const issues: SonarIssue[] = [];
+  results.forEach((result) =>
+    result.messages.forEach((msg) => {
+      const sonarSeverity = mapEslintSeverity(msg.severity);
+      const meta = msg.ruleId ? rulesMeta[msg.ruleId] : undefined;
+      // ESLint columns are 1-based, Sonar offsets are 0-based
+      const textRange: IssueTextRange | undefined = msg.endLine !== undefined && msg.endColumn !== undefined
+        ? { startLine: msg.line, startOffset: msg.column - 1, endLine: msg.endLine, endOffset: msg.endColumn - 1 }
+        : undefined;
+      issues.push(
+        new SonarIssue(
+          msg.message,
+          msg.ruleId || "ESLint",
+          sonarSeverity,
+          result.filePath,
+          msg.line,
+          {
+            textRange,
+            source,
+            impacts: [mapEslintImpact(sonarSeverity, meta)],
+            fix: msg.fix,
+            suggestions: msg.suggestions,
+            lintedVersion: lintedVersions.get(result.filePath),
+          }
+        )
+      );
+    })
+  );
+
+  return issues;
+}
+
+// Helper function to map ESLint's severity to Sonar-like severity
+function mapEslintSeverity(eslintSeverity: number | string): string {
+  if (eslintSeverity === 2 || eslintSeverity === "error") {
+    return "CRITICAL";
+  }
+  if (eslintSeverity === 1 || eslintSeverity === "warn") {
+    return "MAJOR";
+  }
+  return "INFO";
+}
+
+// Possible errors affect reliability, everything else (suggestions, layout) maintainability
+function mapEslintImpact(sonarSeverity: string, meta: Rule.RuleMetaData | undefined): IssueImpact {
+  const severities: Record<string, string> = { CRITICAL: "HIGH", MAJOR: "MEDIUM" };
+  return {
+    softwareQuality: meta?.type === "problem" ? "RELIABILITY" : "MAINTAINABILITY",
+    severity: severities[sonarSeverity] || "LOW",
+  };
+}
@@ -0,0 +1,215 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { SonarConfig } from "./sonarClient";
+
+// Connection of each workspace folder: folder settings with the token in SecretStorage, the legacy
+// .vscode/sonar-config.json (offered for migration) and the SONAR_* variables of the scanner on top.
+
+// Environment variables understood by the SonarScanner CLI, they override every other source
+const envServer = () => process.env.SONAR_HOST_URL;
+const envToken = () => process.env.SONAR_TOKEN;
+const envOrganization = () => process.env.SONAR_ORGANIZATION;
+
+const legacyMigrationPrompted: Set<string> = new Set();
+
+// Set on activation: SecretStorage holds the tokens, the workspace state the "Don't Ask Again" answers
+let extensionContext: vscode.ExtensionContext;
+
+export function initConfig(context: vscode.ExtensionContext) {
+  extensionContext = context;
+}
+
+function sonarConfigPath(folder: vscode.WorkspaceFolder): string {
+  return path.join(folder.uri.fsPath, ".vscode", "sonar-config.json");
+}
+
+function tokenSecretKey(server: string): string {
+  return `sonarExtension.token:${server.replace(/\/+$/, "")}`;
+}
+
+// A folder is connected when it has folder settings, the legacy sonar-config.json or an env override
+export function hasSonarConfig(folder: vscode.WorkspaceFolder): boolean {
+  const settings = vscode.workspace.getConfiguration("sonarExtension", folder.uri);
+  return !!settings.get<string>("server") || !!envServer() || fs.existsSync(sonarConfigPath(folder));
+}
+
+// Checks the shape of a configuration and returns one readable message per problem
+function validateSonarConfig(config: Record<string, unknown>, tokenRequired: boolean): string[] {
+  const errors: string[] = [];
+  const { server, token, projectKey, organization } = config;
+
+  if (server === undefined || server === "") {
+    errors.push("'server' is missing");
+  } else if (typeof server !== "string") {
+    errors.push("'server' must be a string");
+  } else if (!/^https?:\/\/[^\s/]+/.test(server)) {
+    errors.push(`'server' must be an http:// or https:// URL, got "${server}"`);
+  }
+
+  if (projectKey === undefined || projectKey === "") {
+    errors.push("'projectKey' is missing");
+  } else if (typeof projectKey !== "string") {
+    errors.push("'projectKey' must be a string");
+  } else if (!/^[\w\-.:]+$/.test(projectKey) || /^\d+$/.test(projectKey)) {
+    errors.push(`'projectKey' "${projectKey}" may only contain letters, digits, '-', '_', '.' and ':' and must contain a non-digit`);
+  }
+
+  if (organization !== undefined && organization !== "" && typeof organization !== "string") {
+    errors.push("'organization' must be a string");
+  }
+
+  if (token !== undefined && typeof token !== "string") {
+    errors.push("'token' must be a string");
+  } else if (tokenRequired && !token) {
+    errors.push("no token found, run \"Configure Connection\" to store one securely");
+  }
+  return errors;
+}
+
+export async function readSonarConfig(folder: vscode.WorkspaceFolder): Promise<SonarConfig | undefined> {
+  const settings = vscode.workspace.getConfiguration("sonarExtension", folder.uri);
+  const configPath = sonarConfigPath(folder);
+  const useLegacyFile = !settings.get<string>("server") && fs.existsSync(configPath);
+
+  let config: Record<string, unknown>;
+  let source: string;
+  if (useLegacyFile) {
+    source = ".vscode/sonar-config.json";
+    try {
+      config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+    } catch (error: unknown) {
+      vscode.window.showErrorMessage(
+        `Sonar configuration for "${folder.name}" is invalid: ${source} is not valid JSON (${error instanceof Error ? error.message : String(error)})`
+      );
+      return undefined;
+    }
+    if (typeof config !== "object" || config === null || Array.isArray(config)) {
+      vscode.window.showErrorMessage(`Sonar configuration for "${folder.name}" is invalid: ${source} must contain a JSON object`);
+      return undefined;
+    }
+  } else {
+    source = "settings";
+    config = {
+      server: settings.get<string>("server"),
+      projectKey: settings.get<string>("projectKey"),
+      organization: settings.get<string>("organization"),
+    };
+  }
+
+  config.server = envServer() || config.server;
+  config.organization = envOrganization() || config.organization;
+  if (typeof config.server === "string") {
+    config.token = envToken()
+      || await extensionContext.secrets.get(tokenSecretKey(config.server))
+      || config.token;
+  }
+
+  const errors = validateSonarConfig(config, true);
+  if (errors.length > 0) {
+    vscode.window.showErrorMessage(`Sonar configuration for "${folder.name}" (${source}) is invalid: ${errors.join("; ")}.`);
+    return undefined;
+  }
+
+  const result = config as unknown as SonarConfig;
+  result.server = result.server.replace(/\/+$/, "");
+  if (useLegacyFile) {
+    offerLegacyConfigMigration(folder, result);
+  }
+  return result;
+}
+
+// Moves a legacy sonar-config.json into folder settings and the token into SecretStorage
+async function offerLegacyConfigMigration(folder: vscode.WorkspaceFolder, config: SonarConfig) {
+  const promptKey = `sonarExtension.skipLegacyMigration:${folder.uri.toString()}`;
+  if (legacyMigrationPrompted.has(folder.uri.toString()) || extensionContext.workspaceState.get<boolean>(promptKey)) {
+    return;
+  }
+  legacyMigrationPrompted.add(folder.uri.toString());
+
+  const choice = await vscode.window.showWarningMessage(
+    `"${folder.name}" stores its SonarQube token in plain text in .vscode/sonar-config.json. Move the connection to settings and the token to secure storage? The file will be deleted.`,
+    "Migrate",
+    "Not Now",
+    "Don't Ask Again"
+  );
+  if (choice === "Don't Ask Again") {
+    await extensionContext.workspaceState.update(promptKey, true);
+    return;
+  }
+  if (choice !== "Migrate") { return; }
+
+  try {
+    await saveConnection(folder, config);
+    fs.unlinkSync(sonarConfigPath(folder));
+    vscode.window.showInformationMessage(`Sonar connection of "${folder.name}" migrated to settings and secure storage.`);
+  } catch (error: unknown) {
+    vscode.window.showErrorMessage(`Failed to migrate Sonar configuration: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function saveConnection(folder: vscode.WorkspaceFolder, config: SonarConfig) {
+  const settings = vscode.workspace.getConfiguration("sonarExtension", folder.uri);
+  await settings.update("server", config.server, vscode.ConfigurationTarget.WorkspaceFolder);
+  await settings.update("projectKey", config.projectKey, vscode.ConfigurationTarget.WorkspaceFolder);
+  await settings.update("organization", config.organization || undefined, vscode.ConfigurationTarget.WorkspaceFolder);
+  await extensionContext.secrets.store(tokenSecretKey(config.server), config.token);
+}
+
+export async function configureConnection() {
+  const folder = (vscode.workspace.workspaceFolders?.length || 0) > 1
+    ? await vscode.window.showWorkspaceFolderPick({ placeHolder: "Select the folder to connect to SonarQube" })
+    : vscode.workspace.workspaceFolders?.[0];
+  if (!folder) { return; }
+
+  const settings = vscode.workspace.getConfiguration("sonarExtension", folder.uri);
+
+  const server = await vscode.window.showInputBox({
+    title: "SonarQube Connection (1/4)",
+    prompt: "Server URL",
+    value: settings.get<string>("server") || "https://sonarcloud.io",
+    ignoreFocusOut: true,
+    validateInput: (value) => validateSonarConfig({ server: value, projectKey: "placeholder" }, false)[0],
+  });
+  if (!server) { return; }
+
+  const organization = await vscode.window.showInputBox({
+    title: "SonarQube Connection (2/4)",
+    prompt: "Organization key (SonarCloud only, leave empty for SonarQube Server)",
+    value: settings.get<string>("organization") || "",
+    ignoreFocusOut: true,
+  });
+  if (organization === undefined) { return; }
+
+  const projectKey = await vscode.window.showInputBox({
+    title: "SonarQube Connection (3/4)",
+    prompt: "Project key",
+    value: settings.get<string>("projectKey") || "",
+    ignoreFocusOut: true,
+    validateInput: (value) => validateSonarConfig({ server, projectKey: value }, false)[0],
+  });
+  if (!projectKey) { return; }
+
+  const token = await vscode.window.showInputBox({
+    title: "SonarQube Connection (4/4)",
+    prompt: "User token (generate one under My Account > Security). It is kept in VS Code's secure storage.",
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: (value) => (value ? undefined : "A token is required"),
+  });
+  if (!token) { return; }
+
+  await saveConnection(folder, { server: server.replace(/\/+$/, ""), projectKey, organization, token });
+  vscode.window.showInformationMessage(`"${folder.name}" is now connected to ${projectKey}.`);
+  vscode.commands.executeCommand("sonarExtension.refreshIssues");
+}
+
+// Resolves the configuration of the workspace folder that owns the given file
+export async function getSonarConfigFor(filePath: string): Promise<SonarConfig | undefined> {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+  if (!folder) {
+    vscode.window.showWarningMessage(`${filePath} is not part of an open workspace folder`);
+    return undefined;
+  }
+  return readSonarConfig(folder);
+}
@@ -0,0 +1,164 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { SonarConfig, branchParams, fetchAnalysisDate, sonarApiError, sonarFetch } from "./sonarClient";
+import { TrackedFolder, trackedFolders, updateTrackedFolder } from "./issueTracking";
+import { hasSonarConfig, readSonarConfig } from "./config";
+import { resolveBranchTarget } from "./git";
+
+// Coverage overlay of the last analysis: gutter icons for covered, partially covered and uncovered
+// lines of the visible editors, and the coverage of the active file in the status bar.
+
+type LineCoverage = "covered" | "uncovered" | "partial";
+
+interface FileCoverage {
+  // Branch, pull request and analysis the coverage belongs to
+  revision: string;
+  lines: Map<number, LineCoverage>;
+  // Line and condition coverage the way SonarQube computes it, undefined when there is nothing to cover
+  percent?: number;
+}
+
+const coverageKinds: LineCoverage[] = ["covered", "uncovered", "partial"];
+let coverageDecorations: Map<LineCoverage, vscode.TextEditorDecorationType> | undefined;
+let coverageStatusBarItem: vscode.StatusBarItem | undefined;
+const coverageCache: Map<string, FileCoverage> = new Map();
+// Folders and files whose lookup failed, not tried again before the next issue refresh
+const coverageFailures: Set<string> = new Set();
+
+// Folders shown in a local scope were never fetched, their branch is resolved once per refresh
+async function coverageTarget(folder: vscode.WorkspaceFolder): Promise<TrackedFolder | undefined> {
+  const key = folder.uri.toString();
+  const tracked = trackedFolders.get(key);
+  if (tracked) { return tracked; }
+  if (!hasSonarConfig(folder) || coverageFailures.has(key)) { return undefined; }
+  try {
+    const connection = await readSonarConfig(folder);
+    if (!connection) {
+      // readSonarConfig already told the user what is wrong
+      coverageFailures.add(key);
+      return undefined;
+    }
+    const target = await resolveBranchTarget(folder, connection);
+    const config: SonarConfig = { ...connection, branch: target.branch, pullRequest: target.pullRequest };
+    updateTrackedFolder(folder, config, await fetchAnalysisDate(config));
+  } catch (error) {
+    console.error(`Failed to resolve the coverage branch of ${folder.name}:`, error);
+    coverageFailures.add(key);
+    return undefined;
+  }
+  return trackedFolders.get(key);
+}
+
+async function fetchFileCoverage(folder: vscode.WorkspaceFolder, filePath: string, tracked: TrackedFolder): Promise<FileCoverage> {
+  const { config } = tracked;
+  const component = `${config.projectKey}:${path.relative(folder.uri.fsPath, filePath).split(path.sep).join("/")}`;
+  const apiPath = `/api/sources/lines?key=${encodeURIComponent(component)}${branchParams(config)}`;
+  const res = await sonarFetch(config, apiPath);
+  const lines: Map<number, LineCoverage> = new Map();
+  const revision = JSON.stringify([config.branch, config.pullRequest, tracked.analysisDate]);
+  // The file is not part of the analysis, remembered as nothing to cover
+  if (res.status === 404) { return { revision, lines }; }
+  if (!res.ok) { throw await sonarApiError(res, config, apiPath); }
+
+  let toCover = 0;
+  let covered = 0;
+  for (const source of (await res.json()).sources || []) {
+    // Older servers only report unit test hits
+    const hits: number | undefined = source.lineHits ?? source.utLineHits;
+    if (hits === undefined) { continue; }
+    const conditions: number = source.conditions || 0;
+    const coveredConditions: number = source.coveredConditions || 0;
+    toCover += 1 + conditions;
+    covered += (hits > 0 ? 1 : 0) + coveredConditions;
+    lines.set(source.line, hits === 0 ? "uncovered" : coveredConditions < conditions ? "partial" : "covered");
+  }
+  return {
+    revision,
+    lines,
+    percent: toCover > 0 ? (covered / toCover) * 100 : undefined,
+  };
+}
+
+// Loads the coverage of the active file unless it is cached for the current analysis, then redraws.
+// A new issue refresh retries earlier failures, offline the overlay just stays empty.
+export async function refreshCoverage(newRefresh: boolean = false, force: boolean = false) {
+  if (newRefresh) {
+    coverageFailures.clear();
+  }
+  const editor = vscode.window.activeTextEditor;
+  const enabled = vscode.workspace.getConfiguration("sonarExtension").get<boolean>("showCoverage", false);
+  if (enabled && editor?.document.uri.scheme === "file") {
+    const filePath = editor.document.uri.fsPath;
+    const folder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
+    const tracked = folder ? await coverageTarget(folder) : undefined;
+    if (folder && tracked && !coverageFailures.has(filePath)) {
+      const cached = coverageCache.get(filePath);
+      const revision = JSON.stringify([tracked.config.branch, tracked.config.pullRequest, tracked.analysisDate]);
+      if (force || cached?.revision !== revision) {
+        try {
+          coverageCache.set(filePath, await fetchFileCoverage(folder, filePath, tracked));
+        } catch (error) {
+          console.error(`Failed to load the coverage of ${filePath}:`, error);
+          coverageFailures.add(filePath);
+        }
+      }
+    }
+  }
+  renderCoverage();
+}
+
+function renderCoverage() {
+  if (!coverageDecorations || !coverageStatusBarItem) { return; }
+  const enabled = vscode.workspace.getConfiguration("sonarExtension").get<boolean>("showCoverage", false);
+
+  vscode.window.visibleTextEditors.forEach((editor) => {
+    const coverage = enabled ? coverageCache.get(editor.document.uri.fsPath) : undefined;
+    coverageDecorations!.forEach((type, kind) => {
+      const ranges: vscode.Range[] = [];
+      coverage?.lines.forEach((lineKind, line) => {
+        if (lineKind === kind && line <= editor.document.lineCount) {
+          ranges.push(new vscode.Range(line - 1, 0, line - 1, 0));
+        }
+      });
+      editor.setDecorations(type, ranges);
+    });
+  });
+
+  const active = vscode.window.activeTextEditor;
+  const coverage = enabled && active ? coverageCache.get(active.document.uri.fsPath) : undefined;
+  if (coverage?.percent === undefined) {
+    coverageStatusBarItem.hide();
+    return;
+  }
+  const uncovered = Array.from(coverage.lines.values()).filter((kind) => kind === "uncovered").length;
+  coverageStatusBarItem.text = `$(beaker) ${coverage.percent.toFixed(1)}%`;
+  coverageStatusBarItem.tooltip = `Coverage of ${vscode.workspace.asRelativePath(active!.document.uri)} in the last analysis, ${uncovered} uncovered lines. Click to hide the coverage overlay.`;
+  coverageStatusBarItem.show();
+}
+
+export function registerCoverage(context: vscode.ExtensionContext) {
+  coverageDecorations = new Map(
+    coverageKinds.map((kind) => [
+      kind,
+      vscode.window.createTextEditorDecorationType({
+        gutterIconPath: vscode.Uri.joinPath(context.extensionUri, "media", `coverage-${kind}.svg`),
+        gutterIconSize: "contain",
+      }),
+    ])
+  );
+  coverageStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 98);
+  coverageStatusBarItem.command = "sonarExtension.toggleCoverage";
+
+  // Switching editors uses the branch resolved by the last refresh and the cached coverage
+  context.subscriptions.push(
+    ...coverageDecorations.values(),
+    coverageStatusBarItem,
+    vscode.window.onDidChangeActiveTextEditor(() => refreshCoverage()),
+    vscode.window.onDidChangeVisibleTextEditors(renderCoverage),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("sonarExtension.showCoverage")) {
+        refreshCoverage(true);
+      }
+    })
+  );
+}
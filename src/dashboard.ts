@@ -0,0 +1,245 @@
+import * as vscode from "vscode";
+import { SonarApiError, SonarConfig, branchParams, sonarFetch, sonarGet } from "./sonarClient";
+import { hasSonarConfig, readSonarConfig } from "./config";
+import { resolveBranchTarget } from "./git";
+
+// The Dashboard view and the status bar: quality gate and main measures of each project,
+// overall and on new code, for the branch or pull request of the workspace folder.
+
+export class DashboardNode {
+  constructor(
+    public readonly label: string,
+    public readonly description?: string,
+    public readonly icon?: vscode.ThemeIcon,
+    public readonly tooltip?: string,
+    public readonly children: DashboardNode[] = []
+  ) { }
+}
+
+export class SonarDashboardProvider implements vscode.TreeDataProvider<DashboardNode> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<DashboardNode | undefined | null | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private projects: DashboardNode[] = [];
+
+  setProjects(projects: DashboardNode[]): void {
+    this.projects = projects;
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: DashboardNode): vscode.TreeItem {
+    const treeItem = new vscode.TreeItem(
+      element.label,
+      element.children.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+    );
+    treeItem.description = element.description;
+    treeItem.iconPath = element.icon;
+    treeItem.tooltip = element.tooltip;
+    return treeItem;
+  }
+
+  getChildren(element?: DashboardNode): Thenable<DashboardNode[]> {
+    return Promise.resolve(element ? element.children : this.projects);
+  }
+}
+
+interface QualityGateCondition {
+  status: string;
+  metricKey: string;
+  comparator: string;
+  errorThreshold?: string;
+  actualValue?: string;
+}
+
+interface QualityGateStatus {
+  status: string;
+  conditions: QualityGateCondition[];
+}
+
+interface ProjectMeasure {
+  value?: string;
+  newValue?: string;
+}
+
+interface ProjectDashboard {
+  folder: vscode.WorkspaceFolder;
+  projectKey: string;
+  branch?: string;
+  qualityGate?: QualityGateStatus;
+  measures: Record<string, ProjectMeasure>;
+}
+
+// /api/measures/component, only the fields the dashboard reads
+interface MeasuresResponse {
+  component?: {
+    measures?: {
+      metric: string;
+      value?: string;
+      // New code value since SonarQube 8.x, "periods" before
+      period?: { value?: string };
+      periods?: { index: number; value?: string }[];
+    }[];
+  };
+}
+
+// Dashboards of the last successful refresh per folder, kept while the server cannot be reached
+const lastDashboards: Map<string, ProjectDashboard> = new Map();
+let qualityGateStatusBarItem: vscode.StatusBarItem;
+
+const dashboardMetrics: { key: string; newKey: string; label: string }[] = [
+  { key: "bugs", newKey: "new_bugs", label: "Bugs" },
+  { key: "vulnerabilities", newKey: "new_vulnerabilities", label: "Vulnerabilities" },
+  { key: "security_hotspots", newKey: "new_security_hotspots", label: "Security Hotspots" },
+  { key: "code_smells", newKey: "new_code_smells", label: "Code Smells" },
+  { key: "coverage", newKey: "new_coverage", label: "Coverage" },
+  { key: "duplicated_lines_density", newKey: "new_duplicated_lines_density", label: "Duplications" },
+  { key: "reliability_rating", newKey: "new_reliability_rating", label: "Reliability Rating" },
+  { key: "security_rating", newKey: "new_security_rating", label: "Security Rating" },
+  { key: "sqale_rating", newKey: "new_maintainability_rating", label: "Maintainability Rating" },
+];
+
+const comparatorSymbols: Record<string, string> = { GT: ">", LT: "<", EQ: "=", NE: "!=" };
+
+function metricLabel(metricKey: string): string {
+  const metric = dashboardMetrics.find((m) => m.key === metricKey || m.newKey === metricKey);
+  if (metric) {
+    return metric.newKey === metricKey ? `${metric.label} on New Code` : metric.label;
+  }
+  return metricKey.replace(/_/g, " ");
+}
+
+function formatMeasure(metricKey: string, value: string | undefined): string {
+  if (value === undefined) { return "–"; }
+  if (metricKey.endsWith("_rating")) {
+    // Ratings are reported as 1.0 (A) to 5.0 (E)
+    return "ABCDE".charAt(Math.round(parseFloat(value)) - 1) || value;
+  }
+  if (metricKey.includes("coverage") || metricKey.includes("duplicated_lines_density")) {
+    return `${parseFloat(value).toFixed(1)}%`;
+  }
+  return value;
+}
+
+// A condition fails when the actual value compares to the threshold with its comparator
+function describeCondition(condition: QualityGateCondition): string {
+  const comparator = comparatorSymbols[condition.comparator] || condition.comparator;
+  return `${metricLabel(condition.metricKey)} is ${formatMeasure(condition.metricKey, condition.actualValue)} (fails when ${comparator} ${formatMeasure(condition.metricKey, condition.errorThreshold)})`;
+}
+
+async function fetchProjectDashboard(folder: vscode.WorkspaceFolder): Promise<ProjectDashboard | undefined> {
+  const connection = await readSonarConfig(folder);
+  if (!connection) { return undefined; }
+  const target = await resolveBranchTarget(folder, connection);
+  const config: SonarConfig = { ...connection, branch: target.branch, pullRequest: target.pullRequest };
+  const { projectKey } = config;
+
+  const gateRes = await sonarFetch(config, `/api/qualitygates/project_status?projectKey=${encodeURIComponent(projectKey)}${branchParams(config)}`);
+  const qualityGate: QualityGateStatus | undefined = gateRes.ok ? (await gateRes.json()).projectStatus : undefined;
+
+  const metricKeys = dashboardMetrics.flatMap((m) => [m.key, m.newKey]).join(",");
+  const measuresRes = await sonarGet(
+    config,
+    `/api/measures/component?component=${encodeURIComponent(projectKey)}&metricKeys=${metricKeys}${branchParams(config)}`
+  );
+  const data: MeasuresResponse = await measuresRes.json();
+
+  const measures: Record<string, ProjectMeasure> = {};
+  (data.component?.measures || []).forEach((measure) => {
+    const newValue = measure.period?.value ?? measure.periods?.[0]?.value;
+    measures[measure.metric] = { value: measure.value ?? newValue, newValue };
+  });
+
+  return { folder, projectKey, branch: target.label, qualityGate, measures };
+}
+
+function buildDashboardNode(dashboard: ProjectDashboard): DashboardNode {
+  const gate = dashboard.qualityGate;
+  const passed = gate?.status === "OK";
+  const failing = (gate?.conditions || []).filter((c) => c.status === "ERROR");
+
+  const gateNode = new DashboardNode(
+    "Quality Gate",
+    gate ? (passed ? "Passed" : gate.status === "NONE" ? "Not computed" : "Failed") : "Unavailable",
+    gate && gate.status !== "NONE"
+      ? new vscode.ThemeIcon(passed ? "pass" : "error", new vscode.ThemeColor(passed ? "testing.iconPassed" : "testing.iconFailed"))
+      : new vscode.ThemeIcon("circle-outline"),
+    undefined,
+    failing.map((c) => new DashboardNode(describeCondition(c), undefined, new vscode.ThemeIcon("close")))
+  );
+
+  const measureNodes = (newCode: boolean) => dashboardMetrics.map((metric) => {
+    const key = newCode ? metric.newKey : metric.key;
+    const measure = dashboard.measures[key];
+    return new DashboardNode(metric.label, formatMeasure(key, newCode ? measure?.newValue : measure?.value));
+  });
+
+  return new DashboardNode(
+    dashboard.projectKey,
+    [dashboard.folder.name, dashboard.branch].filter(Boolean).join(" · "),
+    new vscode.ThemeIcon("project"),
+    undefined,
+    [
+      gateNode,
+      new DashboardNode("Overall Code", undefined, new vscode.ThemeIcon("graph"), undefined, measureNodes(false)),
+      new DashboardNode("New Code", undefined, new vscode.ThemeIcon("diff-added"), undefined, measureNodes(true)),
+    ]
+  );
+}
+
+function updateQualityGateStatusBar(dashboards: ProjectDashboard[]) {
+  const gates = dashboards.filter((d) => d.qualityGate && d.qualityGate.status !== "NONE");
+  if (gates.length === 0) {
+    qualityGateStatusBarItem.hide();
+    return;
+  }
+
+  const failed = gates.filter((d) => d.qualityGate!.status !== "OK");
+  qualityGateStatusBarItem.text = failed.length === 0 ? "$(pass) Quality Gate: Passed" : "$(error) Quality Gate: Failed";
+  qualityGateStatusBarItem.backgroundColor = failed.length === 0 ? undefined : new vscode.ThemeColor("statusBarItem.errorBackground");
+
+  const tooltip = new vscode.MarkdownString();
+  gates.forEach((d) => {
+    const conditions = d.qualityGate!.conditions.filter((c) => c.status === "ERROR");
+    tooltip.appendMarkdown(`**${d.projectKey}**: ${d.qualityGate!.status === "OK" ? "Passed" : "Failed"}\n\n`);
+    conditions.forEach((c) => tooltip.appendMarkdown(`- ${describeCondition(c)}\n`));
+    tooltip.appendMarkdown("\n");
+  });
+  qualityGateStatusBarItem.tooltip = tooltip;
+  qualityGateStatusBarItem.show();
+}
+
+export async function refreshDashboard(provider: SonarDashboardProvider) {
+  const folders = (vscode.workspace.workspaceFolders || []).filter(hasSonarConfig);
+  const results = await Promise.all(folders.map(async (folder) => {
+    const key = folder.uri.toString();
+    try {
+      const dashboard = await fetchProjectDashboard(folder);
+      if (dashboard) {
+        lastDashboards.set(key, dashboard);
+      } else {
+        lastDashboards.delete(key);
+      }
+    } catch (error) {
+      // Offline the folder keeps its last dashboard, other failures need the user's attention
+      if (error instanceof SonarApiError && error.status === undefined) {
+        console.error(`Failed to refresh the quality gate of ${folder.name}:`, error);
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to refresh the quality gate for "${folder.name}": ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+    return lastDashboards.get(key);
+  }));
+  const dashboards = results.filter((d): d is ProjectDashboard => !!d);
+
+  provider.setProjects(dashboards.map(buildDashboardNode));
+  updateQualityGateStatusBar(dashboards);
+}
+
+// The status bar shows the quality gate of the projects, a click opens the Dashboard view
+export function registerDashboard(context: vscode.ExtensionContext) {
+  qualityGateStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+  qualityGateStatusBarItem.command = "sonarDashboardView.focus";
+  context.subscriptions.push(qualityGateStatusBarItem);
+}
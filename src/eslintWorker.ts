@@ -0,0 +1,145 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parentPort } from "worker_threads";
+import { ESLint, Linter, Rule, loadESLint } from "eslint";
+
+// Runs ESLint in a worker thread so linting large workspaces does not block the extension host.
+// The extension posts an ESLintRequest and receives one ESLintResponse with the same id.
+
+export interface ESLintRequest {
+  id: number;
+  cwd: string;
+  // Files linted from disk
+  files: string[];
+  // Open documents, linted as shown in the editor
+  documents: { filePath: string; text: string }[];
+  fix?: boolean;
+}
+
+export type ESLintResponse =
+  | { id: number; results: ESLint.LintResult[]; rulesMeta: Record<string, Rule.RuleMetaData> }
+  | { id: number; error: string };
+
+// Stops the request with this id before its next batch of files
+export interface ESLintCancellation {
+  cancel: number;
+}
+
+// Used when the project has no ESLint configuration of its own
+const defaultESLintConfig = {
+  env: { node: true, es2021: true },
+  parserOptions: {
+    ecmaVersion: "latest",
+    sourceType: "module",
+  },
+  globals: {
+    console: "readonly",
+    process: "readonly",
+  },
+  rules: {
+    "no-unused-vars": "warn",
+    "no-console": "off",
+  },
+} as Linter.Config;
+
+const flatConfigFiles = ["eslint.config.js", "eslint.config.mjs", "eslint.config.cjs", "eslint.config.ts", "eslint.config.mts", "eslint.config.cts"];
+const legacyConfigFiles = [".eslintrc.js", ".eslintrc.cjs", ".eslintrc.yaml", ".eslintrc.yml", ".eslintrc.json", ".eslintrc"];
+
+// Files per lintFiles call; cancellations are picked up between batches
+const batchSize = 50;
+
+type ESLintClass = new (options: ESLint.Options) => ESLint;
+
+// Closest ESLint configuration from dir upwards, the way the eslint CLI looks it up
+function findESLintConfig(dir: string): { file: string; flat: boolean } | undefined {
+  for (let current = dir; ; current = path.dirname(current)) {
+    const flat = flatConfigFiles.find((file) => fs.existsSync(path.join(current, file)));
+    if (flat) { return { file: path.join(current, flat), flat: true }; }
+    const legacy = legacyConfigFiles.find((file) => fs.existsSync(path.join(current, file)));
+    if (legacy) { return { file: path.join(current, legacy), flat: false }; }
+    const packageJson = path.join(current, "package.json");
+    try {
+      if (fs.existsSync(packageJson) && JSON.parse(fs.readFileSync(packageJson, "utf8")).eslintConfig) {
+        return { file: packageJson, flat: false };
+      }
+    } catch (error) {
+      console.error(`Ignoring unreadable ${packageJson}:`, error);
+    }
+    if (path.dirname(current) === current) { return undefined; }
+  }
+}
+
+// The project's own eslint package, so its plugins, parsers and config format resolve like on the command line
+async function loadProjectESLint(cwd: string, flat: boolean): Promise<ESLintClass | undefined> {
+  let modulePath: string;
+  try {
+    modulePath = require.resolve("eslint", { paths: [cwd] });
+  } catch {
+    return undefined;
+  }
+  const eslintModule = require(modulePath);
+  if (eslintModule.loadESLint) {
+    // ESLint 8.57+ picks the flat or legacy class from the configuration files
+    return eslintModule.loadESLint({ cwd });
+  }
+  if (flat) {
+    // ESLint 8.21 - 8.56 only offer flat config through an unstable entry point
+    const unstable = require(require.resolve("eslint/use-at-your-own-risk", { paths: [cwd] }));
+    return unstable.FlatESLint;
+  }
+  return eslintModule.ESLint;
+}
+
+async function createESLint(cwd: string, fix: boolean = false): Promise<ESLint> {
+  const config = findESLintConfig(cwd);
+  const ProjectESLint = config ? await loadProjectESLint(cwd, config.flat) : undefined;
+  if (ProjectESLint) {
+    return new ProjectESLint({ cwd, fix });
+  }
+  if (config) {
+    // No eslint installed in the project, the bundled one still reads its configuration
+    const BundledESLint = (await loadESLint({ useFlatConfig: config.flat })) as ESLintClass;
+    return new BundledESLint({ cwd, fix });
+  }
+  return new ESLint({ cwd, fix, overrideConfig: defaultESLintConfig });
+}
+
+const cancelled: Set<number> = new Set();
+
+async function lint(request: ESLintRequest): Promise<ESLintResponse> {
+  const eslint = await createESLint(request.cwd, request.fix);
+  const results: ESLint.LintResult[] = [];
+
+  const onDisk: string[] = [];
+  for (const file of request.files) {
+    if (!(await eslint.isPathIgnored(file))) {
+      onDisk.push(file);
+    }
+  }
+  for (let i = 0; i < onDisk.length && !cancelled.has(request.id); i += batchSize) {
+    results.push(...await eslint.lintFiles(onDisk.slice(i, i + batchSize)));
+    // Lets a cancellation posted meanwhile arrive
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  for (const document of request.documents) {
+    if (cancelled.has(request.id)) { break; }
+    results.push(...await eslint.lintText(document.text, { filePath: document.filePath, warnIgnored: false }));
+  }
+
+  // Round trip through JSON drops anything that cannot be posted back, e.g. functions in rule schemas
+  return JSON.parse(JSON.stringify({ id: request.id, results, rulesMeta: eslint.getRulesMetaForResults(results) }));
+}
+
+if (parentPort) {
+  const port = parentPort;
+  port.on("message", (message: ESLintRequest | ESLintCancellation) => {
+    if ("cancel" in message) {
+      cancelled.add(message.cancel);
+      return;
+    }
+    lint(message).then(
+      (response) => port.postMessage(response),
+      (error: unknown) => port.postMessage({ id: message.id, error: error instanceof Error ? error.message : String(error) })
+    ).finally(() => cancelled.delete(message.id));
+  });
+}
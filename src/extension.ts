@@ -1,32 +1,77 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
-import fetch from "node-fetch";
-import { ESLint, Linter } from "eslint";
+import { Worker } from "worker_threads";
+import { ESLint, Rule } from "eslint";
+import type { ESLintRequest, ESLintResponse } from "./eslintWorker";
+import {
+  IssueFlow, IssueLocation, SonarIssue, describeCleanCodeAttribute, describeImpacts, displaySeverity,
+  formatStatus, groupBy, isImpactsSupported, issueTypeLabels, mapSeverity, setImpactsSupported, severityIcon,
+  severityOrder, softwareQualities, toRange,
+} from "./issueModel";
+import {
+  SonarApiError, SonarApiIssue, SonarConfig, branchParams, componentToPath, fetchAnalysisDate, fetchServerVersion,
+  impactSeverityChoices, newCodeParam, newCodeParams, sonarApiError, sonarFetch, supportsImpacts,
+} from "./sonarClient";
+import { IssueFilter, IssueFilterPreset, defaultIssueFilter, issueFilterParams, presetFilter, sameIssueFilter } from "./issueFilter";
+import { IssueCacheEntry, clearIssueCache, describeCacheEntry, issueCachePath, readIssueCache, writeIssueCache } from "./issueCache";
+import { computeLineMapping, loadAnalyzedSource, remapTextRange, updateTrackedFolder } from "./issueTracking";
+import { eslintResultIssues, registerAnalyzer, runLocalAnalyzers } from "./analyzers";
+import { readReportTask, runScannerTask, scannerCommand, waitForCeTask } from "./scanner";
+import { ExportFormat, exportFormats, importedReports, readImportedReport, toCsv, toHtml, toMarkdown, toSarif } from "./reports";
+import { configureConnection, hasSonarConfig, initConfig, readSonarConfig } from "./config";
+import { detectGitBranch, filterMyIssues, resolveBranchTarget, watchBranchChanges } from "./git";
+import { TriagedIssues, addIssueComment, assignIssue, issueUrl, showIssueDetails, transitionIssue } from "./triage";
+import { cachedRuleName, eslintRulesMeta, showRuleDescription } from "./rules";
+import { SonarHotspot, SonarHotspotsProvider, refreshHotspots, reviewHotspot, showHotspotDetails } from "./hotspots";
+import { SonarDashboardProvider, refreshDashboard, registerDashboard } from "./dashboard";
+import { refreshCoverage, registerCoverage } from "./coverage";
 
 
 let diagnosticCollection: vscode.DiagnosticCollection;
+let extensionContext: vscode.ExtensionContext;
 let autoRefreshEnabled: boolean = true;
+// Milliseconds to wait for a burst of saves or editor switches to end before refreshing
+const refreshDelay = 500;
 
-// ---- Issue Model ----
-export class SonarIssue {
+// ---- Tree Nodes ----
+export class IssueFlowNode {
   constructor(
-    public readonly message: string,
-    public readonly rule: string,
-    public readonly severity: string,
-    public readonly filePath: string,
-    public readonly line: number
+    public readonly issue: SonarIssue,
+    public readonly index: number
   ) { }
 }
 
-type TreeItemElement = string | SonarIssue;
+export class IssueLocationNode {
+  constructor(
+    public readonly location: IssueLocation,
+    public readonly step: number
+  ) { }
+}
+
+export type IssueGroupBy = "file" | "directory" | "severity" | "rule" | "type" | "source";
+export type IssueSortBy = "severity" | "line" | "creationDate";
+
+export class IssueGroupNode {
+  constructor(
+    public readonly kind: IssueGroupBy | "folder",
+    public readonly label: string,
+    public readonly issues: SonarIssue[],
+    // Folder, directory or file the group stands for
+    public readonly resourcePath?: string
+  ) { }
+}
+
+type TreeItemElement = IssueGroupNode | SonarIssue | IssueFlowNode | IssueLocationNode;
 
 // ---- Tree Provider ----
 export class SonarIssuesProvider implements vscode.TreeDataProvider<TreeItemElement> {
   private _onDidChangeTreeData = new vscode.EventEmitter<TreeItemElement | undefined | null | void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-  private issuesByFile: Map<string, SonarIssue[]> = new Map();
+  private issues: SonarIssue[] = [];
+  private groupBy: IssueGroupBy = "file";
+  private sortBy: IssueSortBy = "severity";
 
   private treeView: vscode.TreeView<TreeItemElement> | undefined;
   constructor() { }
@@ -36,40 +81,141 @@ export class SonarIssuesProvider implements vscode.TreeDataProvider<TreeItemElem
   }
 
   setIssues(issues: SonarIssue[]): void {
-    this.issuesByFile.clear();
-    issues.forEach((issue) => {
-      if (!this.issuesByFile.has(issue.filePath)) {
-        this.issuesByFile.set(issue.filePath, []);
-      }
-      this.issuesByFile.get(issue.filePath)!.push(issue);
-    });
+    this.issues = issues;
     if (issues.length === 0 && this.treeView) {
       this.treeView.message = " All good! No issues found.";
     } else if (this.treeView) {
       this.treeView.message = undefined;
     }
+    if (this.treeView) {
+      this.treeView.description = [activeFilterPresetName(), issuesStaleLabel].filter(Boolean).join(" · ") || undefined;
+    }
     this._onDidChangeTreeData.fire();
   }
 
-  getTreeItem(element: TreeItemElement): vscode.TreeItem {
-    if (typeof element === "string") {
-      const uri = vscode.Uri.file(element);
-      const collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
-      const treeItem = new vscode.TreeItem(vscode.Uri.file(element), vscode.TreeItemCollapsibleState.Expanded);
+  setGrouping(groupBy: IssueGroupBy, sortBy: IssueSortBy): void {
+    this.groupBy = groupBy;
+    this.sortBy = sortBy;
+    this._onDidChangeTreeData.fire();
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getIssues(): SonarIssue[] {
+    return this.issues;
+  }
 
-      treeItem.label = vscode.workspace.asRelativePath(uri);
-      treeItem.resourceUri = uri;
-      treeItem.iconPath = vscode.ThemeIcon.File;
-      treeItem.tooltip = element;
-      treeItem.description = `${this.issuesByFile.get(element)!.length} issues`;
+  // Re-render a single issue node after its status or assignee changed
+  updateIssue(issue: SonarIssue): void {
+    this._onDidChangeTreeData.fire(issue);
+  }
+
+  removeIssue(issue: SonarIssue): void {
+    this.issues = this.issues.filter((i) => i !== issue);
+    if (this.issues.length === 0 && this.treeView) {
+      this.treeView.message = " All good! No issues found.";
+    }
+    this._onDidChangeTreeData.fire();
+  }
 
+  getTreeItem(element: TreeItemElement): vscode.TreeItem {
+    if (element instanceof IssueGroupNode) {
+      const treeItem = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Expanded);
+      treeItem.description = `${element.issues.length} issues`;
+
+      switch (element.kind) {
+        case "folder":
+          treeItem.resourceUri = vscode.Uri.file(element.resourcePath!);
+          treeItem.iconPath = new vscode.ThemeIcon("root-folder");
+          treeItem.tooltip = element.resourcePath;
+          break;
+        case "directory":
+          treeItem.resourceUri = vscode.Uri.file(element.resourcePath!);
+          treeItem.iconPath = vscode.ThemeIcon.Folder;
+          treeItem.tooltip = element.resourcePath;
+          break;
+        case "file":
+          treeItem.resourceUri = vscode.Uri.file(element.resourcePath!);
+          treeItem.iconPath = vscode.ThemeIcon.File;
+          treeItem.tooltip = element.resourcePath;
+          break;
+        case "severity":
+          treeItem.iconPath = severityIcon(displaySeverity(element.issues[0]));
+          break;
+        case "rule":
+          treeItem.iconPath = new vscode.ThemeIcon("law");
+          break;
+        case "type":
+          treeItem.iconPath = new vscode.ThemeIcon(
+            element.issues[0].type === "BUG" ? "bug" : element.issues[0].type === "VULNERABILITY" ? "shield" : "lightbulb"
+          );
+          break;
+        case "source": {
+          const [first] = element.issues;
+          treeItem.iconPath = new vscode.ThemeIcon(first.source === "SonarQube" ? "server" : first.reportFile ? "file-code" : "tools");
+          treeItem.tooltip = first.reportFile;
+          break;
+        }
+      }
+      return treeItem;
+    } else if (element instanceof IssueFlowNode) {
+      const locations = element.issue.flows[element.index];
+      const treeItem = new vscode.TreeItem(`Flow ${element.index + 1}`, vscode.TreeItemCollapsibleState.Collapsed);
+      treeItem.description = `${locations.length} steps`;
+      treeItem.iconPath = new vscode.ThemeIcon("git-commit");
+      return treeItem;
+    } else if (element instanceof IssueLocationNode) {
+      const { location } = element;
+      const treeItem = new vscode.TreeItem(`${element.step}. ${location.message || "Secondary location"}`);
+      const line = location.textRange?.startLine;
+      treeItem.description = `${path.basename(location.filePath)}${line ? `:${line}` : ""}`;
+      treeItem.tooltip = location.filePath;
+      treeItem.iconPath = new vscode.ThemeIcon("debug-stackframe-dot");
+      treeItem.command = {
+        command: "vscode.open",
+        title: "Open Location",
+        arguments: [vscode.Uri.file(location.filePath), { selection: toRange(location.textRange, line || 1) }],
+      };
       return treeItem;
     } else {
       const treeItem = new vscode.TreeItem(element.message);
 
-      treeItem.tooltip = `${element.rule} [${element.severity}]`;
-      treeItem.description = `Line ${element.line}`;
-      treeItem.collapsibleState = vscode.TreeItemCollapsibleState.None;
+      const useImpacts = isImpactsSupported() && element.impacts.length > 0;
+      treeItem.tooltip = `${element.rule} [${useImpacts ? describeImpacts(element) : element.severity}]`;
+      const attribute = describeCleanCodeAttribute(element);
+      if (attribute) {
+        treeItem.tooltip += `\nClean code attribute: ${attribute}`;
+      }
+      if (element.assignee) {
+        treeItem.tooltip += `\nAssignee: ${element.assignee}`;
+      }
+      if (element.author) {
+        treeItem.tooltip += `\nAuthor: ${element.author}`;
+      }
+      // Outside of file groups the line alone does not say where the issue is
+      const inFileGroup = this.groupBy === "file" || this.groupBy === "directory";
+      treeItem.description = inFileGroup
+        ? `Line ${element.currentLine}`
+        : `${vscode.workspace.asRelativePath(element.filePath)}:${element.currentLine}`;
+      if (element.status && element.status !== "OPEN") {
+        treeItem.description += ` · ${formatStatus(element.status)}`;
+      }
+      if (element.trackingState === "deleted") {
+        treeItem.description += " · likely resolved";
+        treeItem.tooltip += "\nThe flagged code was deleted since the last analysis.";
+      } else if (element.trackingState === "changed") {
+        treeItem.description += " · code changed";
+        treeItem.tooltip += "\nThe flagged code was modified since the last analysis.";
+      }
+      treeItem.collapsibleState = element.flows.length > 0
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None;
+      // Only issues known to the server can be triaged
+      treeItem.contextValue = element.key
+        ? "sonarIssue"
+        : element.reportFile ? "importedIssue" : element.source === "ESLint" ? "localIssue" : "analyzerIssue";
 
       treeItem.command = {
         command: "sonarExtension.openIssue",
@@ -77,33 +223,130 @@ export class SonarIssuesProvider implements vscode.TreeDataProvider<TreeItemElem
         arguments: [element],
       };
 
-      switch (element.severity) {
-        case "BLOCKER":
-        case "CRITICAL":
-          treeItem.iconPath = new vscode.ThemeIcon("error", new vscode.ThemeColor("problemsErrorIcon.foreground"));
-          break;
-        case "MAJOR":
-          treeItem.iconPath = new vscode.ThemeIcon("warning", new vscode.ThemeColor("problemsWarningIcon.foreground"));
-          break;
-        case "MINOR":
-        case "INFO":
-          treeItem.iconPath = new vscode.ThemeIcon("info", new vscode.ThemeColor("problemsInfoIcon.foreground"));
-          break;
-        default:
-          treeItem.iconPath = new vscode.ThemeIcon("info");
-          break;
-      }
+      treeItem.iconPath = severityIcon(displaySeverity(element));
       return treeItem;
     }
   }
 
+  private sortIssues(issues: SonarIssue[]): SonarIssue[] {
+    const byLine = (a: SonarIssue, b: SonarIssue) => a.filePath.localeCompare(b.filePath) || a.currentLine - b.currentLine;
+    const bySeverity = (a: SonarIssue, b: SonarIssue) =>
+      severityOrder.indexOf(displaySeverity(a)) - severityOrder.indexOf(displaySeverity(b));
+
+    switch (this.sortBy) {
+      case "severity":
+        return [...issues].sort((a, b) => bySeverity(a, b) || byLine(a, b));
+      case "creationDate":
+        // Newest first, issues without a date (local analysis) last
+        return [...issues].sort((a, b) => (b.creationDate || "").localeCompare(a.creationDate || "") || byLine(a, b));
+      default:
+        return [...issues].sort(byLine);
+    }
+  }
+
+  private fileGroups(issues: SonarIssue[]): IssueGroupNode[] {
+    return Array.from(groupBy(issues, (issue) => issue.filePath).entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([file, fileIssues]) => new IssueGroupNode("file", vscode.workspace.asRelativePath(file, false), fileIssues, file));
+  }
+
+  // Immediate sub directories and files of dir, chains of single directories are compacted like in the explorer
+  private directoryGroups(dir: string, issues: SonarIssue[]): IssueGroupNode[] {
+    const files: SonarIssue[] = [];
+    const subdirs = groupBy(
+      issues.filter((issue) => {
+        const rel = path.relative(dir, issue.filePath);
+        const nested = rel.includes(path.sep) && !rel.startsWith("..");
+        if (!nested) {
+          files.push(issue);
+        }
+        return nested;
+      }),
+      (issue) => path.join(dir, path.relative(dir, issue.filePath).split(path.sep)[0])
+    );
+
+    const dirNodes = Array.from(subdirs.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([subdir, dirIssues]) => {
+        let compacted = subdir;
+        while (true) {
+          const parts = dirIssues.map((issue) => path.relative(compacted, issue.filePath).split(path.sep));
+          const first = parts[0][0];
+          if (parts.some((p) => p.length < 2 || p[0] !== first)) { break; }
+          compacted = path.join(compacted, first);
+        }
+        return new IssueGroupNode("directory", path.relative(dir, compacted), dirIssues, compacted);
+      });
+
+    const fileNodes = Array.from(groupBy(files, (issue) => issue.filePath).entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([file, fileIssues]) => new IssueGroupNode("file", path.basename(file), fileIssues, file));
+
+    return [...dirNodes, ...fileNodes];
+  }
+
+  private groups(issues: SonarIssue[], root?: string): IssueGroupNode[] {
+    switch (this.groupBy) {
+      case "file":
+        return this.fileGroups(issues);
+      case "directory":
+        return root ? this.directoryGroups(root, issues) : this.fileGroups(issues);
+      case "severity":
+        return Array.from(groupBy(issues, displaySeverity).entries())
+          .sort(([a], [b]) => severityOrder.indexOf(a) - severityOrder.indexOf(b))
+          .map(([severity, group]) => new IssueGroupNode("severity", formatStatus(severity), group));
+      case "rule":
+        return Array.from(groupBy(issues, (issue) => issue.rule).entries())
+          .sort(([a, x], [b, y]) => y.length - x.length || a.localeCompare(b))
+          .map(([rule, group]) => new IssueGroupNode("rule", rule, group));
+      case "type":
+        return Array.from(groupBy(issues, (issue) => issue.type || "").entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([type, group]) => new IssueGroupNode("type", issueTypeLabels[type] || "Other", group));
+      case "source":
+        return Array.from(groupBy(issues, (issue) => issue.source).entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([source, group]) => new IssueGroupNode("source", source, group));
+    }
+  }
+
   // Get the children for a given element
   getChildren(element?: TreeItemElement): Thenable<TreeItemElement[]> {
     if (!element) {
-      return Promise.resolve(Array.from(this.issuesByFile.keys()).sort());
-    } else if (typeof element === "string") {
-      const issues = this.issuesByFile.get(element);
-      return Promise.resolve(issues || []);
+      const folders = vscode.workspace.workspaceFolders || [];
+      const byLocation = this.groupBy === "file" || this.groupBy === "directory";
+      if (!byLocation) {
+        return Promise.resolve(this.groups(this.issues));
+      }
+      if (folders.length <= 1) {
+        return Promise.resolve(this.groups(this.issues, folders[0]?.uri.fsPath));
+      }
+      // Multi-root workspaces get a folder level above the files
+      const byFolder = groupBy(
+        this.issues,
+        (issue) => vscode.workspace.getWorkspaceFolder(vscode.Uri.file(issue.filePath))?.uri.fsPath || ""
+      );
+      const folderNodes = folders
+        .filter((folder) => byFolder.has(folder.uri.fsPath))
+        .map((folder) => new IssueGroupNode("folder", folder.name, byFolder.get(folder.uri.fsPath)!, folder.uri.fsPath));
+      const orphans = this.fileGroups(byFolder.get("") || []);
+      return Promise.resolve([...folderNodes, ...orphans]);
+    } else if (element instanceof IssueGroupNode) {
+      if (element.kind === "folder" || element.kind === "directory") {
+        return Promise.resolve(
+          element.kind === "folder" ? this.groups(element.issues, element.resourcePath) : this.directoryGroups(element.resourcePath!, element.issues)
+        );
+      }
+      return Promise.resolve(this.sortIssues(element.issues));
+    } else if (element instanceof SonarIssue) {
+      // A single flow is listed inline, several flows get one node each
+      if (element.flows.length === 1) {
+        return Promise.resolve(element.flows[0].map((location, i) => new IssueLocationNode(location, i + 1)));
+      }
+      return Promise.resolve(element.flows.map((_, i) => new IssueFlowNode(element, i)));
+    } else if (element instanceof IssueFlowNode) {
+      const locations = element.issue.flows[element.index];
+      return Promise.resolve(locations.map((location, i) => new IssueLocationNode(location, i + 1)));
     } else {
       return Promise.resolve([]);
     }
@@ -123,58 +366,426 @@ export class ESLintCodeActionProvider implements vscode.CodeActionProvider {
     ): vscode.ProviderResult<vscode.CodeAction[]> {
 
         const actions: vscode.CodeAction[] = [];
-        
-        for (const diagnostic of context.diagnostics) {
-            
-            const fix = (diagnostic as any)?.fix; // The fix property is not in the official Diagnostic type
-            if (fix) {
-                const action = new vscode.CodeAction(`Fix with ESLint: ${diagnostic.message}`, vscode.CodeActionKind.QuickFix);
-                action.diagnostics = [diagnostic]; // Associate the fix with the diagnostic
-                action.isPreferred = true; // Mark this as a preferred quick fix
-
-                const edit = new vscode.WorkspaceEdit();
-                edit.replace(document.uri, new vscode.Range(fix.range[0], fix.range[1]), fix.text);
-                action.edit = edit;
-
-                actions.push(action);
+        const fileIssues = eslintIssuesByFile.get(document.uri.fsPath) || [];
+        // Fix offsets only fit the text that was linted
+        const upToDate = (issue: SonarIssue) =>
+            issue.lintedVersion !== undefined ? issue.lintedVersion === document.version : !document.isDirty;
+
+        const diagnostics = context.diagnostics.filter((diagnostic) => diagnostic.source === "ESLint");
+        for (const diagnostic of diagnostics) {
+            const issue = fileIssues.find(
+                (candidate) => candidate.rule === diagnostic.code && toRange(candidate.currentTextRange, candidate.currentLine).isEqual(diagnostic.range)
+            );
+            if (!issue) { continue; }
+
+            if (upToDate(issue)) {
+                if (issue.fix) {
+                    actions.push(this.fixAction(`Fix this ${issue.rule} problem`, document, issue.fix, diagnostic, true));
+                }
+                issue.suggestions.forEach((suggestion) => actions.push(this.fixAction(suggestion.desc, document, suggestion.fix, diagnostic, false)));
             }
+            actions.push(this.disableRuleAction(document, issue.rule, diagnostic));
+        }
+
+        if (diagnostics.length > 0 && fileIssues.some((issue) => issue.fix)) {
+            const fixAll = new vscode.CodeAction("Fix all auto-fixable ESLint problems", vscode.CodeActionKind.QuickFix);
+            fixAll.command = { command: "sonarExtension.eslintFixAll", title: fixAll.title, arguments: [document.uri] };
+            actions.push(fixAll);
         }
 
         return actions;
     }
+
+    private fixAction(title: string, document: vscode.TextDocument, fix: Rule.Fix, diagnostic: vscode.Diagnostic, preferred: boolean) {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic]; // Associate the fix with the diagnostic
+        action.isPreferred = preferred;
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, new vscode.Range(document.positionAt(fix.range[0]), document.positionAt(fix.range[1])), fix.text);
+        action.edit = edit;
+        return action;
+    }
+
+    private disableRuleAction(document: vscode.TextDocument, rule: string, diagnostic: vscode.Diagnostic) {
+        const action = new vscode.CodeAction(`Disable ${rule} for this line`, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+
+        const line = document.lineAt(diagnostic.range.start.line);
+        const indent = line.text.slice(0, line.firstNonWhitespaceCharacterIndex);
+        // Between JSX elements only a {/* */} expression is a comment, anywhere else it would be rendered as text
+        const previous = line.lineNumber > 0 ? document.lineAt(line.lineNumber - 1).text.trim() : "";
+        const jsxChild = /react$/.test(document.languageId) && line.text.trim().startsWith("<") && previous.endsWith(">");
+        const comment = jsxChild ? `{/* eslint-disable-next-line ${rule} */}` : `// eslint-disable-next-line ${rule}`;
+        const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(document.uri, line.range.start, `${indent}${comment}${eol}`);
+        action.edit = edit;
+        return action;
+    }
+}
+
+export class RuleDescriptionCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [
+        vscode.CodeActionKind.QuickFix
+    ];
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.ProviderResult<vscode.CodeAction[]> {
+
+        return context.diagnostics
+            .filter((diagnostic) => (diagnostic.source === "SonarQube" || diagnostic.source === "ESLint") && diagnostic.code)
+            .map((diagnostic) => {
+                const rule = String(diagnostic.code);
+                const action = new vscode.CodeAction(`Show rule description for ${rule}`, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                action.command = {
+                    command: "sonarExtension.showRuleDescription",
+                    title: "Show Rule Description",
+                    arguments: [rule, diagnostic.source, document.uri],
+                };
+                return action;
+            });
+    }
 }
 
 // ---- Modes ----
-type Mode = "overall-all" | "overall-file" | "new-all" | "new-file";
+// "mine" scopes show the overall issues that are assigned to the user or on lines they last changed
+type Mode = "overall-all" | "overall-file" | "new-all" | "new-file" | "mine-all" | "mine-file" | "local-all" | "local-file";
 let currentMode: Mode = "overall-all";
 let statusBarItem: vscode.StatusBarItem;
 
-let selectedSeverities: string[] = vscode.workspace
-  .getConfiguration("sonarExtension")
-  .get<string[]>("selectedSeverities", ["BLOCKER"]);
+// Human readable description of the project's new code period, e.g. "since 1.4.0".
+// Filled in by refreshAllIssues when a new-code mode queries the server.
+let newCodePeriodLabel: string | undefined;
+
+// Set while the panel shows cached issues, e.g. "stale (last analysis 8/28/2025, 10:14 AM)"
+let issuesStaleLabel: string | undefined;
+
+// SonarQube branch or pull request the issues were fetched for, e.g. "feature/login" or "PR #42"
+let activeBranchLabel: string | undefined;
+
+// ---- Issue Filter ----
+const issueStatusChoices = ["OPEN", "CONFIRMED", "REOPENED", "RESOLVED", "CLOSED"];
+
+// The severity lists keep the settings they had before presets existed, the rest lives in sonarExtension.issueFilter
+function readIssueFilter(): IssueFilter {
+  const settings = vscode.workspace.getConfiguration("sonarExtension");
+  return {
+    ...defaultIssueFilter,
+    ...settings.get<Partial<IssueFilter>>("issueFilter", {}),
+    severities: settings.get<string[]>("selectedSeverities", defaultIssueFilter.severities),
+    softwareQualities: settings.get<string[]>("selectedSoftwareQualities", defaultIssueFilter.softwareQualities),
+    impactSeverities: settings.get<string[]>("selectedImpactSeverities", defaultIssueFilter.impactSeverities),
+  };
+}
 
-export async function selectSeverities() {
-  const allSeverities = ["BLOCKER", "CRITICAL", "MAJOR", "MINOR", "INFO"];
+// The one filter both the server query and the local filtering read, kept in sync with the settings
+let issueFilter: IssueFilter = readIssueFilter();
+// Set while saveIssueFilter writes its settings one by one, so the change listener does not refresh for each
+let savingIssueFilter = false;
+
+async function saveIssueFilter(filter: IssueFilter) {
+  const { severities, softwareQualities: qualities, impactSeverities, ...rest } = filter;
+  const settings = vscode.workspace.getConfiguration("sonarExtension");
+  const target = vscode.ConfigurationTarget.Workspace;
+  issueFilter = filter;
+  savingIssueFilter = true;
+  try {
+    await settings.update("selectedSeverities", severities, target);
+    await settings.update("selectedSoftwareQualities", qualities, target);
+    await settings.update("selectedImpactSeverities", impactSeverities, target);
+    await settings.update("issueFilter", rest, target);
+  } finally {
+    savingIssueFilter = false;
+  }
+}
+
+function readFilterPresets(): IssueFilterPreset[] {
+  return vscode.workspace.getConfiguration("sonarExtension").get<IssueFilterPreset[]>("filterPresets", []);
+}
+
+// Name of the preset the current filter equals, shown next to the Issues view title
+function activeFilterPresetName(): string | undefined {
+  return readFilterPresets().find((preset) => sameIssueFilter(presetFilter(preset), issueFilter))?.name;
+}
+
+function matchesSeverityFilter(issue: SonarIssue): boolean {
+  if (isImpactsSupported() && issue.impacts.length > 0) {
+    return issue.impacts.some(
+      (impact) => issueFilter.softwareQualities.includes(impact.softwareQuality) && issueFilter.impactSeverities.includes(impact.severity)
+    );
+  }
+  return issueFilter.severities.includes(issue.severity);
+}
+
+// SonarQube applies the whole filter server side; local analyses only know severities and rules
+function matchesIssueFilter(issue: SonarIssue): boolean {
+  if (issueFilter.rules.length > 0 && !issueFilter.rules.includes(issue.rule)) {
+    return false;
+  }
+  return matchesSeverityFilter(issue);
+}
+
+function describeList(values: string[], format: (value: string) => string = formatStatus): string {
+  return values.length > 0 ? values.map(format).join(", ") : "Any";
+}
 
-  const items: vscode.QuickPickItem[] = allSeverities.map(sev => ({
-    label: sev,
-    picked: selectedSeverities.includes(sev),
-  }));
+async function pickMany(placeHolder: string, choices: string[], selected: string[], format: (value: string) => string = formatStatus) {
+  const picked = await vscode.window.showQuickPick(
+    choices.map((value) => ({ label: format(value), value, picked: selected.includes(value) })),
+    { canPickMany: true, placeHolder, ignoreFocusOut: true }
+  );
+  return picked?.map((item) => item.value);
+}
+
+async function inputList(prompt: string, values: string[]) {
+  const input = await vscode.window.showInputBox({ prompt, value: values.join(", "), ignoreFocusOut: true });
+  return input === undefined ? undefined : input.split(",").map((value) => value.trim()).filter(Boolean);
+}
+
+// Updates the severity part of filter in place, returns false when cancelled
+async function pickSeverities(filter: IssueFilter): Promise<boolean> {
+  if (!isImpactsSupported()) {
+    const allSeverities = ["BLOCKER", "CRITICAL", "MAJOR", "MINOR", "INFO"];
+    const picked = await vscode.window.showQuickPick(
+      allSeverities.map((sev) => ({ label: sev, picked: filter.severities.includes(sev) })),
+      { canPickMany: true, placeHolder: "Select severities to filter issues", ignoreFocusOut: true }
+    );
+    if (!picked) { return false; }
+    filter.severities = picked.map((item) => item.label);
+    return true;
+  }
+
+  type ImpactItem = vscode.QuickPickItem & { field?: "softwareQualities" | "impactSeverities"; value?: string };
+  const items: ImpactItem[] = [
+    { label: "Software Qualities", kind: vscode.QuickPickItemKind.Separator },
+    ...softwareQualities.map((quality) => ({
+      label: formatStatus(quality),
+      field: "softwareQualities" as const,
+      value: quality,
+      picked: filter.softwareQualities.includes(quality),
+    })),
+    { label: "Impact Severities", kind: vscode.QuickPickItemKind.Separator },
+    ...impactSeverityChoices.map((severity) => ({
+      label: formatStatus(severity),
+      description: severity === "BLOCKER" || severity === "INFO" ? "SonarQube 10.8+" : undefined,
+      field: "impactSeverities" as const,
+      value: severity,
+      picked: filter.impactSeverities.includes(severity),
+    })),
+  ];
 
   const picked = await vscode.window.showQuickPick(items, {
     canPickMany: true,
-    placeHolder: "Select severities to filter issues",
+    placeHolder: "Select software qualities and impact severities to filter issues",
+    ignoreFocusOut: true,
+  });
+  if (!picked) { return false; }
+  filter.softwareQualities = picked.filter((item) => item.field === "softwareQualities").map((item) => item.value!);
+  filter.impactSeverities = picked.filter((item) => item.field === "impactSeverities").map((item) => item.value!);
+  return true;
+}
+
+export async function selectSeverities() {
+  const filter = { ...issueFilter };
+  if (await pickSeverities(filter)) {
+    await saveIssueFilter(filter);
+    // refresh issues immediately
+    vscode.commands.executeCommand("sonarExtension.refreshIssues");
+  }
+}
+
+// Menu of the filter fields; each pick edits one field and comes back here until "Apply" is picked
+export async function editIssueFilter() {
+  let draft: IssueFilter = { ...issueFilter };
+  type FilterStep = vscode.QuickPickItem & { step?: string };
+
+  while (true) {
+    const severityDescription = isImpactsSupported()
+      ? `${describeList(draft.softwareQualities)} · ${describeList(draft.impactSeverities)}`
+      : describeList(draft.severities);
+    const items: FilterStep[] = [
+      { label: "$(check) Apply", step: "apply" },
+      { label: "", kind: vscode.QuickPickItemKind.Separator },
+      { label: "Severities", description: severityDescription, step: "severities" },
+      { label: "Issue Types", description: describeList(draft.types, (type) => issueTypeLabels[type] || type), step: "types" },
+      { label: "Rules", description: describeList(draft.rules, (rule) => rule), step: "rules" },
+      { label: "Tags", description: describeList(draft.tags, (tag) => tag), step: "tags" },
+      { label: "Author", description: draft.author || "Any", step: "author" },
+      { label: "Assignee", description: draft.assignedToMe ? "Assigned to me" : "Anyone", step: "assignee" },
+      { label: "Status", description: describeList(draft.statuses), step: "statuses" },
+      { label: "Created After", description: draft.createdAfter || "Any time", step: "createdAfter" },
+      { label: "", kind: vscode.QuickPickItemKind.Separator },
+      { label: "$(save) Save as Preset...", step: "save" },
+      { label: "$(discard) Reset to Defaults", step: "reset" },
+    ];
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: "Edit the issue filter, pick Apply when done",
+      ignoreFocusOut: true,
+    });
+    // Escape discards the draft
+    if (!picked) { return; }
+
+    switch (picked.step) {
+      case "apply":
+        await saveIssueFilter(draft);
+        vscode.commands.executeCommand("sonarExtension.refreshIssues");
+        return;
+      case "save":
+        if (await saveFilterPreset(draft)) {
+          vscode.commands.executeCommand("sonarExtension.refreshIssues");
+          return;
+        }
+        break;
+      case "reset":
+        draft = { ...defaultIssueFilter };
+        break;
+      case "severities":
+        await pickSeverities(draft);
+        break;
+      case "types": {
+        const types = await pickMany("Show issues of these types, none for all", Object.keys(issueTypeLabels), draft.types, (type) => issueTypeLabels[type]);
+        draft.types = types ?? draft.types;
+        break;
+      }
+      case "rules":
+        draft.rules = await inputList("Rule keys, separated by commas (e.g. typescript:S1854), empty for all", draft.rules) ?? draft.rules;
+        break;
+      case "tags":
+        draft.tags = await inputList("Issue tags, separated by commas (e.g. cwe, performance), empty for all", draft.tags) ?? draft.tags;
+        break;
+      case "author": {
+        const author = await vscode.window.showInputBox({
+          prompt: "SCM author (login or email) of the issues, empty for all",
+          value: draft.author,
+          ignoreFocusOut: true,
+        });
+        draft.author = author?.trim() ?? draft.author;
+        break;
+      }
+      case "assignee": {
+        const assignee = await vscode.window.showQuickPick(
+          [{ label: "Anyone", assignedToMe: false }, { label: "Assigned to me", assignedToMe: true }],
+          { placeHolder: "Show issues assigned to" }
+        );
+        draft.assignedToMe = assignee?.assignedToMe ?? draft.assignedToMe;
+        break;
+      }
+      case "statuses": {
+        const statuses = await pickMany("Show issues with these statuses", issueStatusChoices, draft.statuses);
+        draft.statuses = statuses && statuses.length > 0 ? statuses : draft.statuses;
+        break;
+      }
+      case "createdAfter": {
+        const date = await vscode.window.showInputBox({
+          prompt: "Only show issues created after this date (YYYY-MM-DD), empty for all",
+          value: draft.createdAfter,
+          ignoreFocusOut: true,
+          validateInput: (value) =>
+            !value.trim() || /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? undefined : "Enter a date as YYYY-MM-DD",
+        });
+        draft.createdAfter = date?.trim() ?? draft.createdAfter;
+        break;
+      }
+    }
+  }
+}
+
+// Saves filter under a name and makes it the active filter, returns false when cancelled
+async function saveFilterPreset(filter: IssueFilter): Promise<boolean> {
+  const name = await vscode.window.showInputBox({
+    prompt: "Name of the filter preset",
+    value: activeFilterPresetName(),
     ignoreFocusOut: true,
+    validateInput: (value) => (value.trim() ? undefined : "Enter a name"),
   });
+  if (!name) { return false; }
+
+  const presets = readFilterPresets().filter((preset) => preset.name !== name.trim());
+  await vscode.workspace
+    .getConfiguration("sonarExtension")
+    .update("filterPresets", [...presets, { name: name.trim(), ...filter }], vscode.ConfigurationTarget.Workspace);
+  await saveIssueFilter(filter);
+  return true;
+}
+
+export async function selectFilterPreset() {
+  type PresetItem = vscode.QuickPickItem & { preset?: IssueFilterPreset; action?: "save" | "edit" };
+  const active = activeFilterPresetName();
+  const items: PresetItem[] = [
+    ...readFilterPresets().map((preset) => ({
+      label: preset.name,
+      description: preset.name === active ? "current" : undefined,
+      preset,
+    })),
+    { label: "", kind: vscode.QuickPickItemKind.Separator },
+    { label: "$(save) Save Current Filter as Preset...", action: "save" as const },
+    { label: "$(edit) Edit Filter...", action: "edit" as const },
+  ];
+  const picked = await vscode.window.showQuickPick(items, { placeHolder: "Switch the issue filter preset" });
+  if (!picked) { return; }
+
+  if (picked.action === "edit") {
+    return editIssueFilter();
+  }
+  if (picked.action === "save") {
+    await saveFilterPreset(issueFilter);
+  } else if (picked.preset) {
+    await saveIssueFilter(presetFilter(picked.preset));
+  }
+  vscode.commands.executeCommand("sonarExtension.refreshIssues");
+}
 
+// ---- Grouping ----
+const groupingChoices: { label: string; value: IssueGroupBy }[] = [
+  { label: "File", value: "file" },
+  { label: "Directory", value: "directory" },
+  { label: "Severity", value: "severity" },
+  { label: "Rule", value: "rule" },
+  { label: "Issue Type", value: "type" },
+  { label: "Source", value: "source" },
+];
+
+const sortingChoices: { label: string; value: IssueSortBy }[] = [
+  { label: "Severity", value: "severity" },
+  { label: "Line", value: "line" },
+  { label: "Creation Date", value: "creationDate" },
+];
+
+function applyGrouping(provider: SonarIssuesProvider) {
+  const config = vscode.workspace.getConfiguration("sonarExtension");
+  provider.setGrouping(config.get<IssueGroupBy>("groupBy", "file"), config.get<IssueSortBy>("sortBy", "severity"));
+}
+
+export async function selectGrouping() {
+  const current = vscode.workspace.getConfiguration("sonarExtension").get<IssueGroupBy>("groupBy", "file");
+  const picked = await vscode.window.showQuickPick(
+    groupingChoices.map((choice) => ({ ...choice, description: choice.value === current ? "current" : undefined })),
+    { placeHolder: "Group issues by" }
+  );
   if (picked) {
-    selectedSeverities = picked.map(item => item.label);
+    // The tree follows through the configuration change listener
     await vscode.workspace
       .getConfiguration("sonarExtension")
-      .update("selectedSeverities", selectedSeverities, vscode.ConfigurationTarget.Workspace);
+      .update("groupBy", picked.value, vscode.ConfigurationTarget.Workspace);
+  }
+}
 
-    // refresh issues immediately
-    vscode.commands.executeCommand("sonarExtension.refreshIssues");
+export async function selectSorting() {
+  const current = vscode.workspace.getConfiguration("sonarExtension").get<IssueSortBy>("sortBy", "severity");
+  const picked = await vscode.window.showQuickPick(
+    sortingChoices.map((choice) => ({ ...choice, description: choice.value === current ? "current" : undefined })),
+    { placeHolder: "Sort issues by" }
+  );
+  if (picked) {
+    await vscode.workspace
+      .getConfiguration("sonarExtension")
+      .update("sortBy", picked.value, vscode.ConfigurationTarget.Workspace);
   }
 }
 
@@ -195,14 +806,36 @@ function updateStatusBar(issueCount: number) {
       case "new-file":
         modeDisplayName = "New Code (Current File)";
         break;
+      case "mine-all":
+        modeDisplayName = "My Issues (All Files)";
+        break;
+      case "mine-file":
+        modeDisplayName = "My Issues (Current File)";
+        break;
+      case "local-all":
+        modeDisplayName = "Local Analysis (All Files)";
+        break;
+      case "local-file":
+        modeDisplayName = "Local Analysis (Current File)";
+        break;
       default:
         modeDisplayName = "Overall Code (All Files)";
         break;
     }
 
-    // statusBarItem.text = `$(bug) Sonar: ${modeDisplayName} | Issues: ${issueCount}`;
-    statusBarItem.text = `$(bug) Sonar: ${modeDisplayName}`;
+    if (currentMode.startsWith("new-") && newCodePeriodLabel) {
+      modeDisplayName += ` · ${newCodePeriodLabel}`;
+    }
+
+    statusBarItem.text = `$(bug) Sonar: ${modeDisplayName} | Issues: ${issueCount}`;
+    if (!currentMode.startsWith("local-") && activeBranchLabel) {
+      statusBarItem.text += ` $(git-branch) ${activeBranchLabel}`;
+    }
     statusBarItem.tooltip = "Click to refresh Sonar & ESLint issues";
+    if (issuesStaleLabel) {
+      statusBarItem.text += ` $(cloud-offline) ${issuesStaleLabel}`;
+      statusBarItem.tooltip = `Showing cached issues, the SonarQube server could not be reached. ${statusBarItem.tooltip}`;
+    }
   }
 }
 
@@ -210,14 +843,47 @@ function updateStatusBar(issueCount: number) {
 export function activate(context: vscode.ExtensionContext) {
   console.log('Sonar Issue Finder is activating!');
   try{
+  extensionContext = context;
+  initConfig(context);
   diagnosticCollection = vscode.languages.createDiagnosticCollection("sonar");
   context.subscriptions.push(diagnosticCollection);
 
   const provider = new SonarIssuesProvider();
-  const treeView = vscode.window.createTreeView("sonarIssuesView", { treeDataProvider: provider });
+  const treeView = vscode.window.createTreeView("sonarIssuesView", { treeDataProvider: provider, canSelectMany: true });
   context.subscriptions.push(treeView);
 
   provider.setTreeView(treeView);
+  issuesProvider = provider;
+  applyGrouping(provider);
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("sonarExtension.groupBy") || event.affectsConfiguration("sonarExtension.sortBy")) {
+        applyGrouping(provider);
+      }
+      if (event.affectsConfiguration("sonarExtension.importedReports") || event.affectsConfiguration("sonarExtension.watchImportedReports")) {
+        watchImportedReports();
+        vscode.commands.executeCommand("sonarExtension.refreshIssues");
+      }
+      // Filter edits made directly in the settings
+      const filterSettings = ["issueFilter", "selectedSeverities", "selectedSoftwareQualities", "selectedImpactSeverities"];
+      if (!savingIssueFilter && filterSettings.some((key) => event.affectsConfiguration(`sonarExtension.${key}`))) {
+        const filter = readIssueFilter();
+        if (!sameIssueFilter(filter, issueFilter)) {
+          issueFilter = filter;
+          vscode.commands.executeCommand("sonarExtension.refreshIssues");
+        }
+      }
+    })
+  );
+
+  const hotspotsProvider = new SonarHotspotsProvider();
+  const hotspotsView = vscode.window.createTreeView("sonarHotspotsView", { treeDataProvider: hotspotsProvider });
+  context.subscriptions.push(hotspotsView);
+
+  hotspotsProvider.setTreeView(hotspotsView);
+
+  const dashboardProvider = new SonarDashboardProvider();
+  context.subscriptions.push(vscode.window.registerTreeDataProvider("sonarDashboardView", dashboardProvider));
 
   statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
   statusBarItem.command = "sonarExtension.refreshIssues";
@@ -225,6 +891,8 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(statusBarItem);
   updateStatusBar(0);
 
+  registerDashboard(context);
+
   // Refresh Command
   context.subscriptions.push(
     vscode.commands.registerCommand("sonarExtension.clearIssues", () => {
@@ -247,9 +915,11 @@ export function activate(context: vscode.ExtensionContext) {
         },
         async () => {
           try {
-            const issues = await refreshAllIssues(currentMode);
+            const issues = await refreshAllIssues(currentMode, true);
             provider.setIssues(issues);
             updateStatusBar(issues.length);
+            vscode.commands.executeCommand("sonarExtension.refreshHotspots");
+            vscode.commands.executeCommand("sonarExtension.refreshDashboard");
           } catch (error: unknown) {
             const message =
               error instanceof Error ? error.message : String(error);
@@ -276,6 +946,10 @@ export function activate(context: vscode.ExtensionContext) {
           "Current file (Overall Code)",
           "All files (New Code)",
           "Current file (New Code)",
+          "All files (My Issues)",
+          "Current file (My Issues)",
+          "All files (Local Analysis)",
+          "Current file (Local Analysis)",
         ],
         { placeHolder: "Select Sonar filter mode" }
       );
@@ -294,11 +968,25 @@ export function activate(context: vscode.ExtensionContext) {
         case "Current file (New Code)":
           currentMode = "new-file";
           break;
+        case "All files (My Issues)":
+          currentMode = "mine-all";
+          break;
+        case "Current file (My Issues)":
+          currentMode = "mine-file";
+          break;
+        case "All files (Local Analysis)":
+          currentMode = "local-all";
+          break;
+        case "Current file (Local Analysis)":
+          currentMode = "local-file";
+          break;
       }
 
       const issues = await refreshAllIssues(currentMode);
       provider.setIssues(issues);
       updateStatusBar(issues.length);
+      vscode.commands.executeCommand("sonarExtension.refreshHotspots");
+      vscode.commands.executeCommand("sonarExtension.refreshDashboard");
     }catch (error: unknown) {
         vscode.window.showErrorMessage(
           `Failed to set filter: ${
@@ -316,9 +1004,10 @@ export function activate(context: vscode.ExtensionContext) {
       try{
       const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(issue.filePath));
       const editor = await vscode.window.showTextDocument(doc);
-      const pos = new vscode.Position(issue.line - 1, 0);
-      editor.selection = new vscode.Selection(pos, pos);
-      editor.revealRange(new vscode.Range(pos, pos));
+      const line = issue.currentLine;
+      const range = issue.currentTextRange ? toRange(issue.currentTextRange, line) : new vscode.Range(line - 1, 0, line - 1, 0);
+      editor.selection = new vscode.Selection(range.start, range.end);
+      editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
       }catch(error: unknown){
         vscode.window.showErrorMessage(
           `Failed to open issue: ${
@@ -330,92 +1019,396 @@ export function activate(context: vscode.ExtensionContext) {
   );
 
 
-  // --- Select Severities Command ---
+  // --- Issue Triage Commands ---
+  // Triage changes issues without a new analysis, the cached issues of the folders are stale
+  const triagedIssues: TriagedIssues = {
+    updateIssue: (issue) => {
+      invalidateIssueCache();
+      provider.updateIssue(issue);
+    },
+    removeIssue: (issue) => {
+      invalidateIssueCache();
+      provider.removeIssue(issue);
+      removeIssueDiagnostic(issue);
+    },
+  };
+  const triageCommands: [string, (issue: SonarIssue, issues: TriagedIssues) => Promise<void>, string][] = [
+    ["sonarExtension.transitionIssue", transitionIssue, "change issue status"],
+    ["sonarExtension.assignIssue", assignIssue, "assign issue"],
+    ["sonarExtension.commentIssue", addIssueComment, "add comment"],
+  ];
+  triageCommands.forEach(([command, handler, action]) => {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(command, async (issue: SonarIssue) => {
+        try{
+        await handler(issue, triagedIssues);
+        }catch(error: unknown){
+          vscode.window.showErrorMessage(
+            `Failed to ${action}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+      })
+    );
+  });
+
+  // --- Issue Details Command ---
   context.subscriptions.push(
-    vscode.commands.registerCommand("sonarExtension.selectSeverities", async () => {
+    vscode.commands.registerCommand("sonarExtension.showIssueDetails", async (issue: SonarIssue) => {
       try{
-      await selectSeverities();
+      await showIssueDetails(issue);
       }catch(error: unknown){
         vscode.window.showErrorMessage(
-          `Failed to select severities: ${
+          `Failed to show issue details: ${
             error instanceof Error ? error.message : String(error)
           }`
         );
       }
     })
   );
-  // Auto-refresh on editor change (only for current file modes)
-  vscode.window.onDidChangeActiveTextEditor(async (editor) => {
-    if (!editor) { return; }
 
-    if (currentMode === "overall-file" || currentMode === "new-file") {
+  // --- Coverage Command ---
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sonarExtension.toggleCoverage", async () => {
       try{
-      const issues = await refreshAllIssues(currentMode);
-      provider.setIssues(issues);
-      updateStatusBar(issues.length);
+      const settings = vscode.workspace.getConfiguration("sonarExtension");
+      await settings.update("showCoverage", !settings.get<boolean>("showCoverage", false), vscode.ConfigurationTarget.Workspace);
       }catch(error: unknown){
         vscode.window.showErrorMessage(
-          `Failed to refresh issues on editor change: ${
+          `Failed to toggle coverage: ${
             error instanceof Error ? error.message : String(error)
           }`
         );
       }
-    }
-  });
+    })
+  );
 
-  // Auto-refresh on save
-  vscode.workspace.onDidSaveTextDocument(async () => {
-    if (autoRefreshEnabled) {
+  // --- Configure Connection Command ---
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sonarExtension.configureConnection", async () => {
       try{
-      const issues = await refreshAllIssues(currentMode);
-      provider.setIssues(issues);
-      updateStatusBar(issues.length);
+      await configureConnection();
       }catch(error: unknown){
         vscode.window.showErrorMessage(
-          `Failed to refresh issues on save: ${
+          `Failed to configure connection: ${
             error instanceof Error ? error.message : String(error)
           }`
         );
       }
-    }
-  });
+    })
+  );
 
-  // Initial load
-  vscode.window.withProgress(
-    {
-      location: vscode.ProgressLocation.Notification,
-      title: "Fetching Sonar issues...",
-      cancellable: false,
-    },
-    async () => {
+  // --- Rule Description Command ---
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sonarExtension.showRuleDescription", async (target: SonarIssue | string, source?: string, resource?: vscode.Uri | string) => {
       try{
-      const issues = await refreshAllIssues(currentMode);
-      provider.setIssues(issues);
-      updateStatusBar(issues.length);
+      // Command links in hovers pass the resource as a string
+      await showRuleDescription(target, source, typeof resource === "string" ? vscode.Uri.parse(resource) : resource);
       }catch(error: unknown){
         vscode.window.showErrorMessage(
-          `Failed to fetch issues: ${
+          `Failed to show rule description: ${
             error instanceof Error ? error.message : String(error)
           }`
         );
-        updateStatusBar(0);
       }
-    }
+    })
   );
 
+  // --- Dashboard Command ---
   context.subscriptions.push(
-    vscode.languages.registerCodeActionsProvider(
-        { scheme: 'file', language: 'javascript' },
-        new ESLintCodeActionProvider(),
-        { providedCodeActionKinds: ESLintCodeActionProvider.providedCodeActionKinds }
-    ),
-    vscode.languages.registerCodeActionsProvider(
-        { scheme: 'file', language: 'typescript' },
-        new ESLintCodeActionProvider(),
-        { providedCodeActionKinds: ESLintCodeActionProvider.providedCodeActionKinds }
-    )
+    vscode.commands.registerCommand("sonarExtension.refreshDashboard", async () => {
+      try{
+      await refreshDashboard(dashboardProvider);
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to refresh the quality gate: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    })
   );
-}
+
+  // --- Security Hotspot Commands ---
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sonarExtension.refreshHotspots", async () => {
+      try{
+      await refreshHotspots(hotspotsProvider, currentMode.startsWith("new-"));
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to refresh Security Hotspots: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }),
+    vscode.commands.registerCommand("sonarExtension.showHotspotDetails", async (hotspot: SonarHotspot) => {
+      try{
+      await showHotspotDetails(hotspot);
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to show hotspot details: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }),
+    vscode.commands.registerCommand("sonarExtension.reviewHotspot", async (hotspot: SonarHotspot) => {
+      try{
+      await reviewHotspot(hotspot, hotspotsProvider);
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to review hotspot: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    })
+  );
+
+  // --- Grouping Commands ---
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sonarExtension.setGrouping", async () => {
+      try{
+      await selectGrouping();
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to change grouping: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }),
+    vscode.commands.registerCommand("sonarExtension.setSorting", async () => {
+      try{
+      await selectSorting();
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to change sorting: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    })
+  );
+
+  // --- Issue Filter Commands ---
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sonarExtension.editFilter", async () => {
+      try{
+      await editIssueFilter();
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to edit the issue filter: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }),
+    vscode.commands.registerCommand("sonarExtension.selectFilterPreset", async () => {
+      try{
+      await selectFilterPreset();
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to switch the filter preset: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    })
+  );
+
+  // --- ESLint Fix All Command ---
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sonarExtension.eslintFixAll", async (uri?: vscode.Uri) => {
+      try{
+      const target = uri || vscode.window.activeTextEditor?.document.uri;
+      if (target) {
+        await fixAllESLintProblems(target);
+      }
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to fix ESLint problems: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    })
+  );
+
+  // --- Run Analysis Command ---
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sonarExtension.runAnalysis", async () => {
+      try{
+      await runAnalysis();
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to run the analysis: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }),
+    { dispose: () => scannerLog?.dispose() }
+  );
+
+  // --- Import Command ---
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sonarExtension.importReport", async () => {
+      try{
+      await importIssueReport();
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to import the issue report: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }),
+    { dispose: () => reportWatchers.forEach((watcher) => watcher.dispose()) }
+  );
+  watchImportedReports();
+
+  // --- Export Command ---
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sonarExtension.exportIssues", async () => {
+      try{
+      await exportIssues(provider, treeView);
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to export issues: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    })
+  );
+
+  // --- Select Severities Command ---
+  context.subscriptions.push(
+    vscode.commands.registerCommand("sonarExtension.selectSeverities", async () => {
+      try{
+      await selectSeverities();
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to select severities: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    })
+  );
+  // Auto-refresh on editor change (only for current file modes), once the user stops switching editors
+  let editorChangeTimer: NodeJS.Timeout | undefined;
+  vscode.window.onDidChangeActiveTextEditor((editor) => {
+    if (!editor || !currentMode.endsWith("-file")) { return; }
+
+    clearTimeout(editorChangeTimer);
+    editorChangeTimer = setTimeout(async () => {
+      try{
+      const issues = await refreshAllIssues(currentMode);
+      provider.setIssues(issues);
+      updateStatusBar(issues.length);
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to refresh issues on editor change: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }, refreshDelay);
+  });
+
+  // Auto-refresh on save; a burst of saves (e.g. "Save All") is handled as one change of all the saved files
+  const savedFiles: Set<string> = new Set();
+  let saveTimer: NodeJS.Timeout | undefined;
+  vscode.workspace.onDidSaveTextDocument((document) => {
+    if (!autoRefreshEnabled || document.uri.scheme !== "file") { return; }
+
+    savedFiles.add(document.uri.fsPath);
+    clearTimeout(saveTimer);
+    saveTimer = setTimeout(async () => {
+      const files = [...savedFiles];
+      savedFiles.clear();
+      try{
+      const issues = await refreshChangedFiles(currentMode, files);
+      provider.setIssues(issues);
+      updateStatusBar(issues.length);
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to refresh issues on save: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }, refreshDelay);
+  });
+
+  // Refreshes issues when HEAD moves to another branch in any folder of the workspace
+  watchBranchChanges(context, () => {
+    if (autoRefreshEnabled && !currentMode.startsWith("local-")) {
+      vscode.commands.executeCommand("sonarExtension.refreshIssues");
+    }
+  });
+  registerEditorDecorations(context, provider);
+  registerCoverage(context);
+
+  // Follow Sonar issue locations through unsaved edits
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeTextDocument((event) => scheduleIssueTracking(event.document)),
+    vscode.workspace.onDidOpenTextDocument((document) => scheduleIssueTracking(document, 0))
+  );
+
+  // Show the issues of the last session right away, the initial load below replaces them
+  let initialLoadDone = false;
+  loadCachedIssues(currentMode).then((cached) => {
+    if (!initialLoadDone && cached.length > 0) {
+      showSeparatedDiagnostics(cached, []);
+      provider.setIssues(cached);
+      updateStatusBar(cached.length);
+    }
+  }, (error) => console.error("Failed to load cached issues:", error));
+
+  // Initial load
+  vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Fetching Sonar issues...",
+      cancellable: false,
+    },
+    async () => {
+      try{
+      const issues = await refreshAllIssues(currentMode);
+      initialLoadDone = true;
+      provider.setIssues(issues);
+      updateStatusBar(issues.length);
+      vscode.commands.executeCommand("sonarExtension.refreshHotspots");
+      vscode.commands.executeCommand("sonarExtension.refreshDashboard");
+      }catch(error: unknown){
+        vscode.window.showErrorMessage(
+          `Failed to fetch issues: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        updateStatusBar(0);
+      }
+    }
+  );
+
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(
+        ["javascript", "typescript", "javascriptreact", "typescriptreact"].map((language) => ({ scheme: 'file', language })),
+        new ESLintCodeActionProvider(),
+        { providedCodeActionKinds: ESLintCodeActionProvider.providedCodeActionKinds }
+    ),
+    vscode.languages.registerCodeActionsProvider(
+        { scheme: 'file' },
+        new RuleDescriptionCodeActionProvider(),
+        { providedCodeActionKinds: RuleDescriptionCodeActionProvider.providedCodeActionKinds }
+    )
+  );
+}
 catch(error){
     console.error('An error occurred during extension activation:', error);
     vscode.window.showErrorMessage(`Something went wrong with the Sonar Extension. Please check the Developer Tools for more details: ${error}`);
@@ -423,67 +1416,133 @@ catch(error){
 }
 
 // ---- Fetch / Refresh ----
-async function refreshAllIssues(mode: Mode): Promise<SonarIssue[]> {
-  try {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders) {return [];}
+interface FolderIssues {
+  sonarIssues: SonarIssue[];
+  localIssues: SonarIssue[];
+  fetchSuccess: boolean;
+  newCodePeriod?: string;
+  branch?: string;
+  // Whether the folder's server uses the Clean Code taxonomy, undefined when unknown (local analysis, offline)
+  impacts?: boolean;
+  // Set when the server could not be reached and cached issues are shown instead
+  stale?: IssueCacheEntry;
+}
 
-    const workspaceRoot = workspaceFolders[0].uri.fsPath;
-    const configPath = path.join(workspaceRoot, ".vscode", "sonar-config.json");
-    if (!fs.existsSync(configPath)) {
-      vscode.window.showWarningMessage("Sonar config not found");
-      return [];
-    }
+interface RefreshRun {
+  tokenSource: vscode.CancellationTokenSource;
+  issues: Promise<SonarIssue[]>;
+  settled: boolean;
+}
+
+let latestRefresh: RefreshRun | undefined;
+
+// A new run cancels the one in flight, which then resolves to the newer run's issues instead of overwriting them
+function startRefresh(collect: (token: vscode.CancellationToken) => Promise<SonarIssue[] | undefined>): Promise<SonarIssue[]> {
+  latestRefresh?.tokenSource.cancel();
+  const tokenSource = new vscode.CancellationTokenSource();
+  const run: RefreshRun = { tokenSource, issues: Promise.resolve([]), settled: false };
+  latestRefresh = run;
+  run.issues = collect(tokenSource.token)
+    .then((issues) => issues || latestRefresh!.issues)
+    .finally(() => {
+      run.settled = true;
+      tokenSource.dispose();
+    });
+  return run.issues;
+}
 
-    const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
-    const { server, token, projectKey } = config;
+// force skips the "nothing analyzed since the last fetch" shortcut of the offline cache
+function refreshAllIssues(mode: Mode, force: boolean = false): Promise<SonarIssue[]> {
+  return startRefresh((token) => collectAllIssues(mode, force, token));
+}
 
-    if (!server || !token || !projectKey) {
-      vscode.window.showErrorMessage(
-        "Sonar configuration is invalid. Please provide 'server', 'token', and 'projectKey' in .vscode/sonar-config.json file."
-      );
-      return [];
+// Re-runs the local analyzers on the changed files only and merges their issues with the others in the panel.
+// Server scopes refresh as a whole, which reuses the cached issues until SonarQube reports a new analysis.
+function refreshChangedFiles(mode: Mode, files: string[]): Promise<SonarIssue[]> {
+  if (!mode.startsWith("local") || !issuesProvider || (latestRefresh && !latestRefresh.settled)) {
+    return refreshAllIssues(mode);
+  }
+  const provider = issuesProvider;
+  return startRefresh(async (token) => {
+    const currentFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+    const changed = mode.endsWith("file") ? files.filter((file) => file === currentFile) : files;
+    const byFolder: Map<vscode.WorkspaceFolder, string[]> = new Map();
+    changed.forEach((file) => {
+      const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file));
+      if (folder) { byFolder.set(folder, [...(byFolder.get(folder) || []), file]); }
+    });
+
+    const fresh: SonarIssue[] = [];
+    for (const [folder, folderFiles] of byFolder) {
+      fresh.push(...(await runLocalAnalyzers(folder, folderFiles, token)).issues);
     }
+    if (token.isCancellationRequested) { return undefined; }
+
+    const changedFiles = new Set(changed);
+    const issues = [
+      ...provider.getIssues().filter((issue) => !changedFiles.has(issue.filePath) || issue.key || issue.reportFile),
+      ...fresh.filter(matchesIssueFilter),
+    ];
+    changedFiles.forEach((file) => setFileDiagnostics(file, issues.filter((issue) => issue.filePath === file)));
+    return issues;
+  });
+}
+
+// Undefined when a newer refresh cancelled this one
+async function collectAllIssues(mode: Mode, force: boolean, token: vscode.CancellationToken): Promise<SonarIssue[] | undefined> {
+  try {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders) {return [];}
 
     const currentFile = vscode.window.activeTextEditor?.document.uri.fsPath;
     const isFileMode = mode.endsWith("file");
-    const isNewMode = mode.startsWith("new");
+    const isLocalMode = mode.startsWith("local");
 
-    let sonarIssues: SonarIssue[] = [];
-    let fetchSuccess = false;
-    if (currentMode.startsWith("overall-")) {
-      try{
-        const apiIssues = await fetchIssues(server, token, projectKey, isFileMode ? currentFile : undefined);
-        sonarIssues = filterByWorkspace(apiIssues, projectKey, workspaceRoot, isFileMode ? currentFile : undefined);
-        fetchSuccess = true;
-      }catch(err:any){
-        vscode.window.showErrorMessage("Failed to fetch SonarQube issues");
-        console.error(err);
-      }
+    // File modes only look at the folder owning the active editor
+    let folders: readonly vscode.WorkspaceFolder[] = workspaceFolders;
+    if (isFileMode) {
+      const owner = currentFile ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(currentFile)) : undefined;
+      folders = owner ? [owner] : [];
     }
 
-    let localIssues: SonarIssue[] = [];
-    if (currentMode.startsWith("new-")) {
-      const filesToAnalyzeUris: vscode.Uri[] = isFileMode && currentFile
-        ? [vscode.Uri.file(currentFile)]
-        : await vscode.workspace.findFiles("**/*.{js,ts,jsx,tsx}", "**/node_modules/**");
+    // Reports are shown in every scope, the file scopes only keep the active file's issues
+    const importedIssues = loadImportedIssues(isFileMode ? currentFile || "" : undefined);
+    const hasImportedReports = importedReportFiles().length > 0;
 
-      const filesToAnalyze: string[] = filesToAnalyzeUris.map(uri => uri.fsPath);
-
-      try {
-        localIssues = await runESLintAnalysis(filesToAnalyze);
-      } catch (err: any) {
-        vscode.window.showErrorMessage(`ESLint failed: ${err.message}`);
-        console.error(err);
+    if (!isLocalMode) {
+      folders = folders.filter(hasSonarConfig);
+      if (folders.length === 0 && !hasImportedReports) {
+        vscode.window.showWarningMessage("Sonar config not found", "Configure Connection").then((choice) => {
+          if (choice) { vscode.commands.executeCommand("sonarExtension.configureConnection"); }
+        });
+        return [];
       }
+    }
 
+    const results = await Promise.all(folders.map((folder) => refreshFolderIssues(folder, mode, token, currentFile, force)));
+    if (token.isCancellationRequested) { return undefined; }
+
+    const sonarIssues = results.flatMap((result) => result.sonarIssues);
+    const localIssues = results.flatMap((result) => result.localIssues);
+    const fetchSuccess = results.some((result) => result.fetchSuccess) || hasImportedReports;
+
+    const periods = new Set(results.map((result) => result.newCodePeriod).filter(Boolean));
+    newCodePeriodLabel = periods.size === 1 ? [...periods][0] : undefined;
+    const branches = new Set(results.map((result) => result.branch).filter(Boolean));
+    activeBranchLabel = branches.size === 1 ? [...branches][0] : branches.size > 1 ? "multiple branches" : undefined;
+    const stale = results.map((result) => result.stale).filter((entry): entry is IssueCacheEntry => !!entry);
+    issuesStaleLabel = stale.length > 0 ? describeCacheEntry("stale", stale) : undefined;
+    const impacts = results.map((result) => result.impacts).filter((known): known is boolean => known !== undefined);
+    if (impacts.length > 0) {
+      setImpactsSupported(impacts.some(Boolean));
     }
 
     // Filter both lists independently
-    const filteredSonarIssues = sonarIssues.filter(issue => selectedSeverities.includes(issue.severity));
-    const filteredLocalIssues = localIssues.filter(issue => selectedSeverities.includes(issue.severity));
+    const filteredSonarIssues = sonarIssues.filter(matchesIssueFilter);
+    const filteredLocalIssues = localIssues.filter(matchesIssueFilter);
+    const filteredImportedIssues = importedIssues.filter(matchesIssueFilter);
 
-    const allFilteredIssues = [...filteredSonarIssues, ...filteredLocalIssues];
+    const allFilteredIssues = [...filteredSonarIssues, ...filteredLocalIssues, ...filteredImportedIssues];
 
     if (!fetchSuccess) {
         updateStatusBar(0);
@@ -493,16 +1552,16 @@ async function refreshAllIssues(mode: Mode): Promise<SonarIssue[]> {
         updateStatusBar(0);
     }
 
-    showSeparatedDiagnostics(filteredSonarIssues, filteredLocalIssues);
+    showSeparatedDiagnostics(filteredSonarIssues, filteredLocalIssues, filteredImportedIssues);
+    refreshCoverage(true, force);
 
-
-    const provider = new SonarIssuesProvider();
-    provider.setIssues(allFilteredIssues);
+    // The callers hand the issues to the registered provider
     updateStatusBar(allFilteredIssues.length);
 
     return allFilteredIssues;
   }
   catch (error) {
+    if (token.isCancellationRequested) { return undefined; }
     let message = "Something went wrong";
     if (error instanceof Error) {
       message = error.message;
@@ -518,60 +1577,277 @@ async function refreshAllIssues(mode: Mode): Promise<SonarIssue[]> {
   }
 }
 
+async function refreshFolderIssues(
+  folder: vscode.WorkspaceFolder,
+  mode: Mode,
+  token: vscode.CancellationToken,
+  currentFile?: string,
+  force: boolean = false
+): Promise<FolderIssues> {
+  const workspaceRoot = folder.uri.fsPath;
+  const isFileMode = mode.endsWith("file");
+  const isNewMode = mode.startsWith("new");
+  const isLocalMode = mode.startsWith("local");
+  const isMineMode = mode.startsWith("mine");
+  const result: FolderIssues = { sonarIssues: [], localIssues: [], fetchSuccess: false };
+
+  if (!isLocalMode) {
+    const connection = await readSonarConfig(folder);
+    if (!connection) {return result;}
+    const { server, projectKey } = connection;
+    const fileFilter = isFileMode ? currentFile : undefined;
+
+    const cacheFile = await issueCacheFile(folder, mode);
+    const cached = cacheFile ? readIssueCache(cacheFile) : undefined;
+    const cache = cached?.server === server && cached.projectKey === projectKey ? cached : undefined;
+
+    try{
+      const target = await resolveBranchTarget(folder, connection);
+      const config: SonarConfig = { ...connection, branch: target.branch, pullRequest: target.pullRequest };
+      result.branch = target.label;
+      if (isNewMode) {
+        const period = await fetchNewCodePeriod(config);
+        result.newCodePeriod = period ? describeNewCodePeriod(period) : undefined;
+      }
 
-// ---- Fetch Sonar ----
-async function fetchIssues(server: string, token: string, projectKey: string, filePath?: string) {
-  let allIssues: any[] = [];
-  let page = 1;
-  const pageSize = 500;
+      const serverVersion = await fetchServerVersion(config);
+      result.impacts = supportsImpacts(config, serverVersion);
+      const analysisDate = await fetchAnalysisDate(config);
+      updateTrackedFolder(folder, config, analysisDate);
+      let apiIssues: SonarApiIssue[];
+      if (!force && cache && analysisDate && cache.analysisDate === analysisDate) {
+        // Nothing was analyzed since the last fetch
+        apiIssues = cache.issues;
+      } else if (fileFilter) {
+        apiIssues = await fetchIssues(config, workspaceRoot, fileFilter, isNewMode, issueFilter, token);
+      } else {
+        apiIssues = await fetchIssues(config, workspaceRoot, undefined, isNewMode, issueFilter, token);
+        if (cacheFile) {
+          writeIssueCache(cacheFile, {
+            server, projectKey, serverVersion, fetchedAt: new Date().toISOString(), analysisDate, issues: apiIssues,
+          });
+        }
+      }
+      result.sonarIssues = filterByWorkspace(apiIssues, projectKey, workspaceRoot, fileFilter);
+      if (isMineMode) {
+        const assigned = await fetchIssues(config, workspaceRoot, fileFilter, false, { ...issueFilter, assignedToMe: true }, token);
+        result.sonarIssues = await filterMyIssues(folder, result.sonarIssues, filterByWorkspace(assigned, projectKey, workspaceRoot, fileFilter));
+      }
+      result.fetchSuccess = true;
+    }catch(err: unknown){
+      // A newer refresh replaced this one, its result is thrown away anyway
+      if (token.isCancellationRequested) { return result; }
+      console.error(err);
+      const message = err instanceof Error ? err.message : String(err);
+      if (cache) {
+        result.sonarIssues = filterByWorkspace(cache.issues, projectKey, workspaceRoot, fileFilter);
+        if (isMineMode) {
+          // Offline the assignments are unknown, git blame still works
+          result.sonarIssues = await filterMyIssues(folder, result.sonarIssues, []);
+        }
+        result.fetchSuccess = true;
+        result.impacts = supportsImpacts(connection, cache.serverVersion);
+        result.stale = cache;
+        // Cached issues cover an outage, not a token or permission that needs fixing
+        if (err instanceof SonarApiError && (err.status === 401 || err.status === 403)) {
+          vscode.window.showErrorMessage(`Showing cached issues for "${folder.name}": ${err.message}`);
+        }
+      } else {
+        vscode.window.showErrorMessage(`Failed to fetch SonarQube issues for "${folder.name}": ${message}`);
+      }
+    }
+  } else {
+    const local = await runLocalAnalyzers(folder, isFileMode ? [currentFile || ""] : undefined, token);
+    result.localIssues = local.issues;
+    result.fetchSuccess = local.success;
+  }
+  return result;
+}
 
-  let extraFilter = "";
-  if (filePath) {
-    extraFilter = `&componentKeys=${projectKey}:${path.relative(vscode.workspace.workspaceFolders![0].uri.fsPath, filePath)}`;
+
+// ---- Offline Cache ----
+// One cache file per folder, branch, code scope and issue filter; the key needs no network access
+async function issueCacheFile(folder: vscode.WorkspaceFolder, mode: Mode): Promise<string | undefined> {
+  if (!extensionContext.storageUri) { return undefined; }
+
+  const settings = vscode.workspace.getConfiguration("sonarExtension", folder.uri);
+  const pullRequest = settings.get<string>("pullRequest");
+  const branch = pullRequest ? `pr:${pullRequest}` : settings.get<string>("branch") || await detectGitBranch(folder) || "";
+  const scope = mode.startsWith("new") ? "new" : "overall";
+  const key = [folder.uri.toString(), branch, scope, JSON.stringify(issueFilter)].join("|");
+  return issueCachePath(extensionContext.storageUri.fsPath, key);
+}
+
+// Triage changes issues without a new analysis, so cached results can no longer be trusted
+function invalidateIssueCache() {
+  if (!extensionContext.storageUri) { return; }
+  clearIssueCache(extensionContext.storageUri.fsPath);
+}
+
+// Issues of the last successful fetch, shown while the first refresh after activation is running
+async function loadCachedIssues(mode: Mode): Promise<SonarIssue[]> {
+  // The cache holds all overall issues, which would flash up before the "mine" scopes narrow them down
+  if (mode.startsWith("local") || mode.startsWith("mine")) { return []; }
+  const currentFile = mode.endsWith("file") ? vscode.window.activeTextEditor?.document.uri.fsPath : undefined;
+
+  const entries: IssueCacheEntry[] = [];
+  const issues: SonarIssue[] = [];
+  for (const folder of (vscode.workspace.workspaceFolders || []).filter(hasSonarConfig)) {
+    const cacheFile = await issueCacheFile(folder, mode);
+    const entry = cacheFile ? readIssueCache(cacheFile) : undefined;
+    if (entry) {
+      entries.push(entry);
+      setImpactsSupported(isImpactsSupported() || supportsImpacts(entry, entry.serverVersion));
+      issues.push(...filterByWorkspace(entry.issues, entry.projectKey, folder.uri.fsPath, currentFile));
+    }
   }
+  issuesStaleLabel = entries.length > 0 ? describeCacheEntry("cached", entries) : undefined;
+  return issues.filter(matchesIssueFilter);
+}
 
+// ---- Fetch Sonar ----
+// SonarQube refuses to page beyond the first 10,000 results of a search
+const issueSearchLimit = 10000;
 
-  const config = vscode.workspace.getConfiguration("sonarExtension");
-  const severities = config.get<string[]>("selectedSeverities", ["BLOCKER"]);
+// The date-time format of createdAfter and createdBefore
+function sonarDateTime(time: number): string {
+  return encodeURIComponent(new Date(time).toISOString().replace(/\.\d{3}Z$/, "+0000"));
+}
+
+async function fetchIssues(
+  config: SonarConfig,
+  workspaceRoot: string,
+  filePath: string | undefined,
+  newCodeOnly: boolean,
+  filter: IssueFilter,
+  token?: vscode.CancellationToken
+): Promise<SonarApiIssue[]> {
+  const { projectKey, organization } = config;
+  const issues: Map<string, SonarApiIssue> = new Map();
+  const pageSize = 500;
 
-  const severitiesParam = severities.join(",");
-  const statuses = "OPEN,REOPENED";
+  // A file's component key is the project key followed by its path in the project
+  const component = filePath ? `${projectKey}:${path.relative(workspaceRoot, filePath).split(path.sep).join("/")}` : projectKey;
+
+  // The creation date is handled below, it becomes the lower bound of the first date window
+  const serverVersion = await fetchServerVersion(config);
+  const filterParams = issueFilterParams({ ...filter, createdAfter: "" }, config, serverVersion);
+  const organizationFilter = organization ? `&organization=${encodeURIComponent(organization)}` : "";
+  const query = `/api/issues/search?componentKeys=${encodeURIComponent(component)}${filterParams}&additionalFields=transitions${organizationFilter}${branchParams(config)}`;
+
+  let newCodeFilter = newCodeOnly ? newCodeParam(config, serverVersion) : "";
+  const search = async (params: string, page: number, size: number = pageSize) => {
+    while (true) {
+      const res = await sonarFetch(config, `${query}${newCodeFilter}${params}&p=${page}&ps=${size}`, { token });
+      if (res.status === 400 && newCodeFilter === newCodeParams.current) {
+        newCodeFilter = newCodeParams.legacy;
+        continue;
+      }
+      // A partial result must not end up in the offline cache, so any failure aborts the fetch
+      if (!res.ok) { throw await sonarApiError(res, config, query); }
+      const data = await res.json();
+      return { issues: (data.issues || []) as SonarApiIssue[], total: (data.paging?.total ?? data.total ?? 0) as number };
+    }
+  };
+
+  // Larger result sets are split into creation date windows [after, before) until each fits under the limit
+  let truncated = false;
+  const collect = async (window: string, after?: number, before?: number): Promise<void> => {
+    const first = await search(window, 1);
+    if (first.total > issueSearchLimit) {
+      const start = after ?? Date.parse((await search(`${window}&s=CREATION_DATE&asc=true`, 1, 1)).issues[0]?.creationDate || "");
+      const end = before ?? Date.now() + 1000;
+      // Whole seconds, the resolution of the date parameters
+      const middle = start + Math.floor((end - start) / 2000) * 1000;
+      if (middle > start) {
+        await collect(`&createdAfter=${sonarDateTime(start)}&createdBefore=${sonarDateTime(middle)}`, start, middle);
+        await collect(`&createdAfter=${sonarDateTime(middle)}&createdBefore=${sonarDateTime(end)}`, middle, end);
+        return;
+      }
+      truncated = true;
+    }
+    first.issues.forEach((issue) => issues.set(issue.key, issue));
+    const lastPage = Math.ceil(Math.min(first.total, issueSearchLimit) / pageSize);
+    for (let page = 2; page <= lastPage; page++) {
+      const next = await search(window, page);
+      if (next.issues.length === 0) { break; }
+      next.issues.forEach((issue) => issues.set(issue.key, issue));
+    }
+  };
 
   try{
-  while (true) {
-    const res = await fetch(
-      `${server}/api/issues/search?componentKeys=${projectKey}&severities=${severitiesParam}&statuses=${statuses}&p=${page}&ps=${pageSize}${extraFilter}`,
-      { headers: { Authorization: "Basic " + Buffer.from(`${token}:`).toString("base64") } }
+    await collect(filter.createdAfter ? `&createdAfter=${encodeURIComponent(filter.createdAfter)}` : "");
+  }catch(error: unknown){
+    console.error("Failed to fetch issues:", error);
+    throw error;
+  }
+  if (truncated) {
+    vscode.window.showWarningMessage(`More than ${issueSearchLimit} issues of ${projectKey} were created within one second, some of them are not shown.`);
+  }
+  return Array.from(issues.values());
+}
+
+// ---- New Code Period ----
+interface NewCodePeriod {
+  mode: string;
+  date?: string;
+  parameter?: string;
+}
+
+async function fetchNewCodePeriod(config: SonarConfig): Promise<NewCodePeriod | undefined> {
+  try {
+    const res = await sonarFetch(
+      config,
+      `/api/measures/component?component=${encodeURIComponent(config.projectKey)}&metricKeys=new_violations&additionalFields=period${branchParams(config)}`
     );
-    if (!res.ok) {break;}
+    if (!res.ok) { return undefined; }
     const data = await res.json();
-    if (!data.issues || data.issues.length === 0) {break;}
-    allIssues.push(...data.issues);
-    if (data.paging.total <= page * pageSize) {break;}
-    page++;
+    // "period" replaced the "periods" array in SonarQube 8.x, keep reading both
+    return data.period || data.periods?.[0];
+  } catch (error) {
+    console.error("Failed to fetch new code period:", error);
+    return undefined;
   }
-  }catch(error: unknown){
-    let message = "Unknown error occurred";
-    if (error instanceof Error) {
-      message = error.message;
-    }
-    vscode.window.showErrorMessage(`Failed to fetch issues`);
-    return [];
+}
+
+function describeNewCodePeriod(period: NewCodePeriod): string {
+  const since = period.date ? period.date.substring(0, 10) : undefined;
+  switch (period.mode.toLowerCase()) {
+    case "previous_version":
+      return period.parameter ? `since ${period.parameter}` : `since previous version${since ? ` (${since})` : ""}`;
+    case "days":
+    case "number_of_days":
+      return `last ${period.parameter} days`;
+    case "reference_branch":
+      return `compared to ${period.parameter}`;
+    default:
+      return since ? `since ${since}` : "new code";
   }
-  return allIssues;
 }
 
 // ---- Filter workspace ----
+function parseFlows(flows: SonarApiIssue["flows"], projectKey: string, workspaceRoot: string): IssueFlow[] {
+  return (flows || [])
+    .filter((flow) => flow.locations?.length)
+    // The API lists flow locations from the last step back to the first, like the SonarQube UI we show them in execution order
+    .map((flow) =>
+      [...flow.locations!].reverse().map((location) => ({
+        filePath: componentToPath(location.component, projectKey, workspaceRoot),
+        textRange: location.textRange,
+        message: location.msg || "",
+      }))
+    );
+}
+
 function filterByWorkspace(
-  issues: any[],
+  issues: SonarApiIssue[],
   projectKey: string,
   workspaceRoot: string,
   currentFile?: string
 ): SonarIssue[] {
   return issues
     .filter((issue) => {
-      const relPath = issue.component.replace(`${projectKey}:`, "").replace(/^\/+/, "");
-      const absPath = path.join(workspaceRoot, relPath);
+      const absPath = componentToPath(issue.component, projectKey, workspaceRoot);
       if (!fs.existsSync(absPath)) {return false;}
       if (currentFile) { return absPath === currentFile; }
       return true;
@@ -582,117 +1858,628 @@ function filterByWorkspace(
           issue.message || "Unknown",
           issue.rule || "Unknown",
           issue.severity || "INFO",
-          path.join(workspaceRoot, issue.component.replace(`${projectKey}:`, "").replace(/^\/+/, "")),
-          issue.textRange?.startLine || 1
+          componentToPath(issue.component, projectKey, workspaceRoot),
+          issue.textRange?.startLine || issue.line || 1,
+          {
+            key: issue.key,
+            status: issue.status,
+            assignee: issue.assignee,
+            transitions: issue.transitions,
+            textRange: issue.textRange,
+            flows: parseFlows(issue.flows, projectKey, workspaceRoot),
+            type: issue.type,
+            creationDate: issue.creationDate,
+            source: "SonarQube",
+            impacts: issue.impacts,
+            cleanCodeAttribute: issue.cleanCodeAttribute,
+            cleanCodeAttributeCategory: issue.cleanCodeAttributeCategory,
+            effort: issue.effort || issue.debt,
+            author: issue.author,
+            updateDate: issue.updateDate,
+            tags: issue.tags,
+          }
         )
     );
 }
 
-// ---- ESLint local analysis ----
-async function runESLintAnalysis(files: string[]): Promise<SonarIssue[]> {
-
-  const eslint = new ESLint({
-    overrideConfig: {
-      env: { node: true, es2021: true },
-      parserOptions: {
-        ecmaVersion: "latest",
-        sourceType: "module",
-      },
-      globals: {
-        console: "readonly",
-        process: "readonly",
-      },
-      rules: {
-        "no-unused-vars": "warn",
-        "no-console": "off",
-      },
-    } as Linter.Config,
-  });
+// ---- Run Analysis ----
+// The scanner run and the compute engine polling are in scanner.ts
+let scannerLog: vscode.OutputChannel | undefined;
+let analysisRunning = false;
 
+async function runAnalysis() {
+  if (analysisRunning) {
+    vscode.window.showInformationMessage("An analysis is already running.");
+    return;
+  }
 
-  const results = await eslint.lintFiles(files);
-  const issues: SonarIssue[] = [];
+  const configured = (vscode.workspace.workspaceFolders || []).filter(hasSonarConfig);
+  const activeFile = vscode.window.activeTextEditor?.document.uri;
+  const activeFolder = activeFile ? vscode.workspace.getWorkspaceFolder(activeFile) : undefined;
+  let folder = configured.length === 1 ? configured[0] : configured.find((candidate) => candidate === activeFolder);
+  if (!folder && configured.length > 1) {
+    const picked = await vscode.window.showQuickPick(
+      configured.map((candidate) => ({ label: candidate.name, description: candidate.uri.fsPath, folder: candidate })),
+      { placeHolder: "Select the folder to analyze" }
+    );
+    folder = picked?.folder;
+    if (!folder) { return; }
+  }
+  const config = folder ? await readSonarConfig(folder) : undefined;
+  if (!folder || !config) {
+    vscode.window.showWarningMessage("Sonar config not found", "Configure Connection").then((choice) => {
+      if (choice) { vscode.commands.executeCommand("sonarExtension.configureConnection"); }
+    });
+    return;
+  }
 
-  results.forEach((result) =>
-    result.messages.forEach((msg) => {
-      const sonarSeverity = mapEslintSeverity(msg.severity);
-      issues.push(
-        new SonarIssue(
-          msg.message,
-          msg.ruleId || "ESLint",
-          sonarSeverity,
-          result.filePath,
-          msg.line
-        )
-      );
-    })
+  const analyzedFolder = folder;
+  scannerLog = scannerLog || vscode.window.createOutputChannel("Sonar Analysis");
+  const log = scannerLog;
+  log.clear();
+  analysisRunning = true;
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Sonar analysis of ${analyzedFolder.name}`, cancellable: true },
+      async (progress, token) => {
+        progress.report({ message: "Running the scanner..." });
+        const startedAt = Date.now() - 1000;
+        const command = scannerCommand(analyzedFolder, config);
+        const run = await runScannerTask(
+          analyzedFolder,
+          command,
+          { SONAR_HOST_URL: config.server, SONAR_TOKEN: config.token },
+          token,
+          log
+        );
+        if (token.isCancellationRequested) { return; }
+        if (run.exitCode !== 0) {
+          // Skip the scanner's generic "Error during execution" and "Re-run with -X" lines
+          const scannerError = run.log
+            .split(/\r?\n/)
+            .find((line) => /ERROR/.test(line) && !/Error during|Re-run|-X switch/.test(line) && /ERROR:?\s*\S/.test(line));
+          vscode.window
+            .showErrorMessage(`The scanner failed with exit code ${run.exitCode}${scannerError ? `: ${scannerError.replace(/^.*?ERROR:?\s*/, "")}` : ""}`, "Show Log")
+            .then((choice) => {
+              if (choice) { scannerLog?.show(); }
+            });
+          return;
+        }
+
+        const reportTask = readReportTask(analyzedFolder.uri.fsPath, startedAt);
+        if (!reportTask?.ceTaskId) {
+          vscode.window
+            .showErrorMessage("The scanner finished but did not write a report-task.txt, the analysis was not submitted.", "Show Log")
+            .then((choice) => {
+              if (choice) { scannerLog?.show(); }
+            });
+          return;
+        }
+
+        progress.report({ message: "Waiting for SonarQube to process the analysis..." });
+        await waitForCeTask(config, reportTask.ceTaskId, token);
+        if (token.isCancellationRequested) { return; }
+
+        await vscode.commands.executeCommand("sonarExtension.refreshIssues");
+        const dashboardUrl = reportTask.dashboardUrl;
+        vscode.window
+          .showInformationMessage(`Analysis of ${analyzedFolder.name} finished.`, ...(dashboardUrl ? ["Open Dashboard"] : []))
+          .then((choice) => {
+            if (choice && dashboardUrl) { vscode.env.openExternal(vscode.Uri.parse(dashboardUrl)); }
+          });
+      }
+    );
+  } finally {
+    analysisRunning = false;
+  }
+}
+
+// ---- Imported Reports ----
+let reportWatchers: vscode.Disposable[] = [];
+
+// Absolute paths of the sonarExtension.importedReports entries of every folder, relative ones resolve against their folder
+function importedReportFiles(): string[] {
+  const files = (vscode.workspace.workspaceFolders || []).flatMap((folder) =>
+    vscode.workspace
+      .getConfiguration("sonarExtension", folder.uri)
+      .get<string[]>("importedReports", [])
+      .map((file) => path.resolve(folder.uri.fsPath, file))
   );
+  return Array.from(new Set(files));
+}
 
-  return issues;
-}
-
-// ---- Map severity ----
-function mapSeverity(sev: string): { vscodeSeverity: vscode.DiagnosticSeverity; prefix: string } {
-  switch (sev) {
-    case "BLOCKER":
-      return { vscodeSeverity: vscode.DiagnosticSeverity.Error, prefix: "BLOCKER" };
-    case "CRITICAL":
-      return { vscodeSeverity: vscode.DiagnosticSeverity.Error, prefix: "CRITICAL" };
-    case "MAJOR":
-      return { vscodeSeverity: vscode.DiagnosticSeverity.Warning, prefix: "MAJOR" };
-    case "MINOR":
-      return { vscodeSeverity: vscode.DiagnosticSeverity.Information, prefix: "MINOR" };
-    case "INFO":
-      return { vscodeSeverity: vscode.DiagnosticSeverity.Information, prefix: "INFO" };
-    default:
-      return { vscodeSeverity: vscode.DiagnosticSeverity.Information, prefix: "INFO" };
+// Issues of all configured reports, only those of currentFile when given
+function loadImportedIssues(currentFile?: string): SonarIssue[] {
+  return importedReportFiles().flatMap((reportFile) => {
+    try {
+      const issues = readImportedReport(reportFile);
+      return currentFile === undefined ? issues : issues.filter((issue) => issue.filePath === currentFile);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`Failed to import "${path.basename(reportFile)}": ${message}`);
+      console.error(`Failed to import ${reportFile}:`, error);
+      return [];
+    }
+  });
+}
+
+async function importIssueReport() {
+  const files = await vscode.window.showOpenDialog({
+    canSelectMany: true,
+    openLabel: "Import",
+    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    filters: { "Issue Reports": ["sarif", "json"], "All Files": ["*"] },
+  });
+  if (!files || files.length === 0) { return; }
+
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  if (!workspaceFolders) {
+    vscode.window.showWarningMessage("Open a folder to import issue reports.");
+    return;
+  }
+
+  for (const file of files) {
+    // Fail before the report ends up in the settings
+    readImportedReport(file.fsPath);
+    const folder = vscode.workspace.getWorkspaceFolder(file) || workspaceFolders[0];
+    const relative = path.relative(folder.uri.fsPath, file.fsPath);
+    const entry = relative.startsWith("..") || path.isAbsolute(relative) ? file.fsPath : relative.split(path.sep).join("/");
+    const settings = vscode.workspace.getConfiguration("sonarExtension", folder.uri);
+    const reports = settings.get<string[]>("importedReports", []);
+    if (!reports.some((report) => path.resolve(folder.uri.fsPath, report) === file.fsPath)) {
+      // The configuration listener watches the new report and refreshes the issues
+      await settings.update("importedReports", [...reports, entry], vscode.ConfigurationTarget.WorkspaceFolder);
+    }
   }
 }
 
-// Helper function to map ESLint's severity to Sonar-like severity
-function mapEslintSeverity(eslintSeverity: number | string): string {
-  if (eslintSeverity === 2 || eslintSeverity === "error") {
-    return "CRITICAL";
+// Reloads the issues when a report changes on disk, e.g. when a CI artifact is downloaded again
+function watchImportedReports() {
+  reportWatchers.forEach((watcher) => watcher.dispose());
+  reportWatchers = [];
+  if (!vscode.workspace.getConfiguration("sonarExtension").get<boolean>("watchImportedReports", true)) {
+    return;
   }
-  if (eslintSeverity === 1 || eslintSeverity === "warn") {
-    return "MAJOR";
+  reportWatchers = importedReportFiles().map((reportFile) => {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(path.dirname(reportFile)), path.basename(reportFile))
+    );
+    const reload = () => {
+      if (autoRefreshEnabled) {
+        vscode.commands.executeCommand("sonarExtension.refreshIssues");
+      }
+    };
+    watcher.onDidChange(reload);
+    watcher.onDidCreate(reload);
+    watcher.onDidDelete(reload);
+    return watcher;
+  });
+}
+
+// ---- Export ----
+// Issues under the selected tree nodes, each once
+function selectedIssues(selection: readonly TreeItemElement[]): SonarIssue[] {
+  const issues = selection.flatMap((element) => {
+    if (element instanceof IssueGroupNode) { return element.issues; }
+    if (element instanceof IssueFlowNode) { return [element.issue]; }
+    return element instanceof SonarIssue ? [element] : [];
+  });
+  return Array.from(new Set(issues));
+}
+
+async function exportIssues(provider: SonarIssuesProvider, treeView: vscode.TreeView<TreeItemElement>) {
+  const allIssues = provider.getIssues();
+  const currentFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+  const fileIssues = allIssues.filter((issue) => issue.filePath === currentFile);
+  const selection = selectedIssues(treeView.selection);
+
+  const scopes = [
+    { label: "All Issues in the Panel", description: `${allIssues.length} issues`, issues: allIssues },
+    ...(currentFile ? [{ label: "Current File", description: `${fileIssues.length} issues`, issues: fileIssues }] : []),
+    ...(selection.length > 0 ? [{ label: "Selected Issues", description: `${selection.length} issues`, issues: selection }] : []),
+  ];
+  const scope = scopes.length > 1 ? await vscode.window.showQuickPick(scopes, { placeHolder: "Issues to export" }) : scopes[0];
+  if (!scope) { return; }
+  if (scope.issues.length === 0) {
+    vscode.window.showInformationMessage("There are no issues to export.");
+    return;
+  }
+
+  const format = await vscode.window.showQuickPick(exportFormats, { placeHolder: "Export format" });
+  if (!format) { return; }
+
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: folder ? vscode.Uri.joinPath(folder.uri, `sonar-issues.${format.extension}`) : undefined,
+    filters: { [format.filterName]: [format.extension] },
+  });
+  if (!target) { return; }
+
+  // Export in the order the panel sorts by default
+  const issues = [...scope.issues].sort(
+    (a, b) => severityOrder.indexOf(displaySeverity(a)) - severityOrder.indexOf(displaySeverity(b)) ||
+      a.filePath.localeCompare(b.filePath) || a.currentLine - b.currentLine
+  );
+  const writers: Record<ExportFormat, (issues: SonarIssue[]) => string> = {
+    sarif: toSarif,
+    csv: toCsv,
+    markdown: toMarkdown,
+    html: toHtml,
+  };
+  await vscode.workspace.fs.writeFile(target, Buffer.from(writers[format.format](issues), "utf8"));
+
+  const choice = await vscode.window.showInformationMessage(`Exported ${issues.length} issues to ${path.basename(target.fsPath)}.`, "Open");
+  if (choice) {
+    vscode.commands.executeCommand("vscode.open", target);
   }
-  return "INFO";
 }
 
-// ---- Show Diagnostics ----
-function showSeparatedDiagnostics(sonarIssues: SonarIssue[], localIssues: SonarIssue[]) {
-  diagnosticCollection.clear();
+// ---- Issue Tracking ----
+// Moves the issues of open documents along with their edits, see issueTracking.ts
+let trackedIssues: SonarIssue[] = [];
+const trackingTimers: Map<string, NodeJS.Timeout> = new Map();
+let issuesProvider: SonarIssuesProvider | undefined;
+
+async function trackDocumentIssues(document: vscode.TextDocument) {
+  const issues = trackedIssues.filter((issue) => issue.filePath === document.uri.fsPath);
+  if (issues.length === 0) { return; }
+  const trackingEnabled = vscode.workspace
+    .getConfiguration("sonarExtension", document.uri)
+    .get<boolean>("trackIssueLocations", true);
+  if (!trackingEnabled) { return; }
+
+  const analyzed = await loadAnalyzedSource(document.uri.fsPath);
+  if (!analyzed) { return; }
+
+  const mapping = computeLineMapping(analyzed, document.getText().split(/\r?\n/));
+  issues.forEach((issue) => {
+    const lineMapping = mapping[issue.line - 1];
+    const startState = issue.textRange ? mapping[issue.textRange.startLine - 1]?.state : lineMapping?.state;
+    issue.trackedLine = lineMapping ? lineMapping.line + 1 : undefined;
+    issue.trackedTextRange = issue.textRange ? remapTextRange(issue.textRange, mapping) : undefined;
+    issue.trackingState = startState;
+  });
 
-  sonarIssues.forEach((issue) => {
-    const range = new vscode.Range(issue.line - 1, 0, issue.line - 1, 100);
-    const { vscodeSeverity, prefix } = mapSeverity(issue.severity);
+  setSonarDiagnostics(document.uri, issues);
+  issuesProvider?.refresh();
+}
+
+function scheduleIssueTracking(document: vscode.TextDocument, delay: number = 300) {
+  if (document.uri.scheme !== "file") { return; }
+  const key = document.uri.fsPath;
+  clearTimeout(trackingTimers.get(key));
+  trackingTimers.set(key, setTimeout(() => {
+    trackingTimers.delete(key);
+    trackDocumentIssues(document).catch((error) => console.error("Issue tracking failed:", error));
+  }, delay));
+}
 
-    const message = `${prefix}: ${issue.message} (${issue.rule})`;
+// ---- Local Analyzers ----
+// The registry and the command line analyzers are in analyzers.ts, ESLint is built in
+registerAnalyzer({
+  name: "ESLint",
+  files: "**/*.{js,mjs,cjs,jsx,ts,mts,cts,tsx}",
+  analyze: runESLintAnalysis,
+});
 
-    const diag = new vscode.Diagnostic(
-      range,
-      message,
-      vscodeSeverity
+// ---- ESLint local analysis ----
+// ESLint issues with fixes by file, for the code actions of their diagnostics
+const eslintIssuesByFile: Map<string, SonarIssue[]> = new Map();
+
+// ESLint runs in a worker thread (see eslintWorker.ts), started with the first request
+let eslintWorker: Worker | undefined;
+const eslintRequests: Map<number, { resolve: (response: ESLintResponse) => void; reject: (error: Error) => void }> = new Map();
+let nextESLintRequest = 1;
+
+function startESLintWorker(): Worker {
+  const worker = new Worker(path.join(__dirname, "eslintWorker.js"));
+  worker.on("message", (response: ESLintResponse) => {
+    eslintRequests.get(response.id)?.resolve(response);
+    eslintRequests.delete(response.id);
+  });
+  // A crashed worker fails its pending requests, the next request starts a new one
+  const fail = (error: Error) => {
+    eslintRequests.forEach((request) => request.reject(error));
+    eslintRequests.clear();
+    if (eslintWorker === worker) { eslintWorker = undefined; }
+  };
+  worker.on("error", fail);
+  worker.on("exit", (code) => fail(new Error(`ESLint worker stopped with exit code ${code}`)));
+  worker.unref();
+  return worker;
+}
+
+async function lintInWorker(
+  request: Omit<ESLintRequest, "id">,
+  token?: vscode.CancellationToken
+): Promise<{ results: ESLint.LintResult[]; rulesMeta: Record<string, Rule.RuleMetaData> }> {
+  eslintWorker = eslintWorker || startESLintWorker();
+  const worker = eslintWorker;
+  const id = nextESLintRequest++;
+  let cancellation: vscode.Disposable | undefined;
+  const response = await new Promise<ESLintResponse>((resolve, reject) => {
+    eslintRequests.set(id, { resolve, reject });
+    worker.postMessage({ ...request, id });
+    cancellation = token?.onCancellationRequested(() => {
+      if (eslintRequests.delete(id)) {
+        worker.postMessage({ cancel: id });
+        reject(new vscode.CancellationError());
+      }
+    });
+  }).finally(() => cancellation?.dispose());
+  if ("error" in response) {
+    throw new Error(response.error);
+  }
+  return response;
+}
+
+async function runESLintAnalysis(files: string[], cwd: string, token?: vscode.CancellationToken): Promise<SonarIssue[]> {
+  // Open documents are linted from the editor, so fixes apply to what is on screen
+  const openDocuments: Map<string, vscode.TextDocument> = new Map(
+    vscode.workspace.textDocuments
+      .filter((document) => document.uri.scheme === "file")
+      .map((document) => [document.uri.fsPath, document])
+  );
+  const lintedVersions: Map<string, number> = new Map();
+  const documents = files.filter((file) => openDocuments.has(file)).map((file) => {
+    const document = openDocuments.get(file)!;
+    lintedVersions.set(file, document.version);
+    return { filePath: file, text: document.getText() };
+  });
+  const { results, rulesMeta } = await lintInWorker(
+    { cwd, files: files.filter((file) => !openDocuments.has(file)), documents },
+    token
+  );
+  Object.entries(rulesMeta).forEach(([ruleId, meta]) => eslintRulesMeta.set(ruleId, meta));
+
+  return eslintResultIssues(results, "ESLint", rulesMeta, lintedVersions);
+}
+
+async function fixAllESLintProblems(uri: vscode.Uri) {
+  const document = await vscode.workspace.openTextDocument(uri);
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  const { results: [result] } = await lintInWorker({
+    cwd: folder ? folder.uri.fsPath : path.dirname(uri.fsPath),
+    files: [],
+    documents: [{ filePath: uri.fsPath, text: document.getText() }],
+    fix: true,
+  });
+  if (result?.output === undefined) {
+    vscode.window.showInformationMessage("There are no auto-fixable ESLint problems in this file.");
+    return;
+  }
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), result.output);
+  await vscode.workspace.applyEdit(edit);
+}
+
+// ---- Show Diagnostics ----
+function diagnosticMessage(issue: SonarIssue): string {
+  if (!isImpactsSupported() || issue.impacts.length === 0) {
+    return `${mapSeverity(issue.severity).prefix}: ${issue.message} (${issue.rule})`;
+  }
+  const impacts = issue.impacts.map((impact) => `${impact.severity} ${formatStatus(impact.softwareQuality)}`).join(", ");
+  const attribute = describeCleanCodeAttribute(issue);
+  return `${impacts}: ${issue.message} (${issue.rule})${attribute ? ` [${attribute}]` : ""}`;
+}
+
+function createDiagnostic(issue: SonarIssue, source: string): vscode.Diagnostic {
+  const { vscodeSeverity } = mapSeverity(displaySeverity(issue));
+  const diag = new vscode.Diagnostic(toRange(issue.currentTextRange, issue.currentLine), diagnosticMessage(issue), vscodeSeverity);
+  diag.source = source;
+  diag.code = issue.rule;
+
+  if (issue.flows.length > 0) {
+    diag.relatedInformation = issue.flows.flatMap((flow, flowIndex) =>
+      flow.map((location, i) => {
+        const step = issue.flows.length > 1 ? `Flow ${flowIndex + 1}, step ${i + 1}` : `Step ${i + 1}`;
+        return new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(vscode.Uri.file(location.filePath), toRange(location.textRange, location.textRange?.startLine || 1)),
+          location.message ? `${step}: ${location.message}` : step
+        );
+      })
     );
-    diag.source = "SonarQube";
-    const uri = vscode.Uri.file(issue.filePath);
-    diagnosticCollection.set(uri, [...(diagnosticCollection.get(uri) || []), diag]);
+  }
+  return diag;
+}
+
+// Local and imported issues keep the name of the tool that produced them as diagnostic source
+function showSeparatedDiagnostics(sonarIssues: SonarIssue[], localIssues: SonarIssue[], importedIssues: SonarIssue[] = []) {
+  const byFile: Map<string, SonarIssue[]> = new Map();
+  [...sonarIssues, ...localIssues, ...importedIssues].forEach((issue) => {
+    byFile.set(issue.filePath, [...(byFile.get(issue.filePath) || []), issue]);
+  });
+
+  // Files are replaced one at a time instead of clearing the collection, so unchanged files do not flicker
+  const outdated: vscode.Uri[] = [];
+  diagnosticCollection.forEach((uri) => {
+    if (!byFile.has(uri.fsPath)) { outdated.push(uri); }
   });
+  outdated.forEach((uri) => diagnosticCollection.delete(uri));
+  eslintIssuesByFile.clear();
+  byFile.forEach((issues, file) => setFileDiagnostics(file, issues));
 
-  localIssues.forEach((issue) => {
-    const range = new vscode.Range(issue.line - 1, 0, issue.line - 1, 100);
-    const { vscodeSeverity, prefix } = mapSeverity(issue.severity);
-    const message = `${prefix}: ${issue.message} (${issue.rule})`;
+  trackedIssues = sonarIssues;
+  vscode.workspace.textDocuments.forEach((document) => scheduleIssueTracking(document, 0));
+}
 
-    const diag = new vscode.Diagnostic(range, message, vscodeSeverity);
-    diag.source = "ESLint";
-    const uri = vscode.Uri.file(issue.filePath);
-    diagnosticCollection.set(uri, [...(diagnosticCollection.get(uri) || []), diag]);
+// Replaces all diagnostics of one file
+function setFileDiagnostics(file: string, issues: SonarIssue[]) {
+  const eslintIssues = issues.filter((issue) => !issue.key && issue.source === "ESLint");
+  if (eslintIssues.length > 0) {
+    eslintIssuesByFile.set(file, eslintIssues);
+  } else {
+    eslintIssuesByFile.delete(file);
+  }
+  const visible = issues.filter((issue) => issue.trackingState !== "deleted");
+  diagnosticCollection.set(vscode.Uri.file(file), visible.map((issue) => createDiagnostic(issue, issue.key ? "SonarQube" : issue.source)));
+}
+
+// Replaces the SonarQube diagnostics of one file, leaving the other sources untouched
+function setSonarDiagnostics(uri: vscode.Uri, issues: SonarIssue[]) {
+  const others = (diagnosticCollection.get(uri) || []).filter((diag) => diag.source !== "SonarQube");
+  const visible = issues.filter((issue) => issue.trackingState !== "deleted");
+  diagnosticCollection.set(uri, [...others, ...visible.map((issue) => createDiagnostic(issue, "SonarQube"))]);
+}
+
+function removeIssueDiagnostic(issue: SonarIssue) {
+  const uri = vscode.Uri.file(issue.filePath);
+  const message = diagnosticMessage(issue);
+  const remaining = (diagnosticCollection.get(uri) || []).filter(
+    (diag) => !(diag.source === "SonarQube" && diag.message === message && diag.range.start.line === issue.currentLine - 1)
+  );
+  diagnosticCollection.set(uri, remaining);
+}
+
+// ---- Editor Decorations ----
+// Gutter icons, code lenses and hovers show the issues of the panel, each one can be turned off on its own
+const gutterSeverities = ["BLOCKER", "CRITICAL", "MAJOR", "MINOR", "INFO"];
+// Impact severities share the icon of the matching classic severity
+const gutterIconOf: Record<string, string> = { HIGH: "CRITICAL", MEDIUM: "MAJOR", LOW: "MINOR" };
+
+const symbolKindsWithLens = [vscode.SymbolKind.Function, vscode.SymbolKind.Method, vscode.SymbolKind.Constructor, vscode.SymbolKind.Class];
+
+function visibleIssuesOf(provider: SonarIssuesProvider, filePath: string): SonarIssue[] {
+  return provider.getIssues().filter((issue) => issue.filePath === filePath && issue.trackingState !== "deleted");
+}
+
+function bySeverity(a: SonarIssue, b: SonarIssue): number {
+  return severityOrder.indexOf(displaySeverity(a)) - severityOrder.indexOf(displaySeverity(b));
+}
+
+function updateGutterIcons(provider: SonarIssuesProvider, decorationTypes: Map<string, vscode.TextEditorDecorationType>) {
+  const enabled = vscode.workspace.getConfiguration("sonarExtension").get<boolean>("gutterIcons", true);
+  vscode.window.visibleTextEditors.forEach((editor) => {
+    const lines: Map<string, vscode.Range[]> = new Map(gutterSeverities.map((severity) => [severity, []]));
+    if (enabled) {
+      // One icon per line, for its most severe issue
+      const seen: Set<number> = new Set();
+      visibleIssuesOf(provider, editor.document.uri.fsPath).sort(bySeverity).forEach((issue) => {
+        const line = issue.currentLine - 1;
+        if (seen.has(line) || line >= editor.document.lineCount) { return; }
+        seen.add(line);
+        const severity = displaySeverity(issue);
+        lines.get(gutterIconOf[severity] || severity)?.push(new vscode.Range(line, 0, line, 0));
+      });
+    }
+    decorationTypes.forEach((type, severity) => editor.setDecorations(type, lines.get(severity) || []));
+  });
+}
+
+// Counts such as "2 critical, 1 major", most severe first
+function describeIssueCounts(issues: SonarIssue[]): string {
+  const counts: Map<string, number> = new Map();
+  [...issues].sort(bySeverity).forEach((issue) => {
+    const severity = displaySeverity(issue);
+    counts.set(severity, (counts.get(severity) || 0) + 1);
   });
+  return Array.from(counts, ([severity, count]) => `${count} ${severity.toLowerCase()}`).join(", ");
+}
+
+class IssueCodeLensProvider implements vscode.CodeLensProvider {
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  constructor(private readonly provider: SonarIssuesProvider) { }
+
+  refresh(): void {
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    if (!vscode.workspace.getConfiguration("sonarExtension").get<boolean>("codeLens", true)) { return []; }
+    const issues = visibleIssuesOf(this.provider, document.uri.fsPath);
+    if (issues.length === 0) { return []; }
+
+    const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+      "vscode.executeDocumentSymbolProvider",
+      document.uri
+    ) || [];
+    // Language servers answer either with a tree of DocumentSymbols or a flat list of SymbolInformation
+    const flatten = (list: (vscode.DocumentSymbol | vscode.SymbolInformation)[]): { kind: vscode.SymbolKind; range: vscode.Range }[] =>
+      list.flatMap((symbol) => "location" in symbol
+        ? [{ kind: symbol.kind, range: symbol.location.range }]
+        : [{ kind: symbol.kind, range: symbol.range }, ...flatten(symbol.children)]);
+
+    return flatten(symbols)
+      .filter((symbol) => symbolKindsWithLens.includes(symbol.kind))
+      .flatMap((symbol) => {
+        const inside = issues
+          .filter((issue) => issue.currentLine - 1 >= symbol.range.start.line && issue.currentLine - 1 <= symbol.range.end.line)
+          .sort(bySeverity);
+        if (inside.length === 0) { return []; }
+        return [new vscode.CodeLens(new vscode.Range(symbol.range.start, symbol.range.start), {
+          title: describeIssueCounts(inside),
+          tooltip: "Go to the most severe issue",
+          command: "sonarExtension.openIssue",
+          arguments: [inside[0]],
+        })];
+      });
+  }
+}
+
+class IssueHoverProvider implements vscode.HoverProvider {
+  constructor(private readonly provider: SonarIssuesProvider) { }
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    if (!vscode.workspace.getConfiguration("sonarExtension").get<boolean>("hovers", true)) { return undefined; }
+    const issues = visibleIssuesOf(this.provider, document.uri.fsPath)
+      .filter((issue) => issue.currentLine - 1 === position.line)
+      .sort(bySeverity);
+    if (issues.length === 0) { return undefined; }
+
+    const markdown = new vscode.MarkdownString(undefined, true);
+    markdown.isTrusted = { enabledCommands: ["sonarExtension.showRuleDescription"] };
+    for (const [index, issue] of issues.entries()) {
+      if (index > 0) { markdown.appendMarkdown("\n\n---\n\n"); }
+      const details = [formatStatus(displaySeverity(issue)), issue.effort ? `Effort: ${issue.effort}` : undefined, issue.source];
+      markdown.appendMarkdown("**").appendText(cachedRuleName(issue)).appendMarkdown(`** \`${issue.rule.replace(/`/g, "")}\`\n\n`);
+      markdown.appendText(details.filter(Boolean).join(" · ")).appendMarkdown("\n\n");
+      markdown.appendText(issue.message).appendMarkdown("\n\n");
+
+      const args = encodeURIComponent(JSON.stringify([issue.rule, issue.key ? "SonarQube" : issue.source, document.uri.toString()]));
+      const links = [`[$(book) Rule description](command:sonarExtension.showRuleDescription?${args})`];
+      const url = issueUrl(issue);
+      if (url) { links.push(`[$(link-external) Open on SonarQube](${url})`); }
+      markdown.appendMarkdown(links.join(" · "));
+    }
+    return new vscode.Hover(markdown);
+  }
+}
+
+function registerEditorDecorations(context: vscode.ExtensionContext, provider: SonarIssuesProvider) {
+  const decorationTypes: Map<string, vscode.TextEditorDecorationType> = new Map(
+    gutterSeverities.map((severity) => [
+      severity,
+      vscode.window.createTextEditorDecorationType({
+        gutterIconPath: vscode.Uri.joinPath(context.extensionUri, "media", `gutter-${severity.toLowerCase()}.svg`),
+        gutterIconSize: "contain",
+      }),
+    ])
+  );
+  const codeLensProvider = new IssueCodeLensProvider(provider);
+  const update = () => {
+    updateGutterIcons(provider, decorationTypes);
+    codeLensProvider.refresh();
+  };
+
+  context.subscriptions.push(
+    ...decorationTypes.values(),
+    vscode.languages.registerCodeLensProvider({ scheme: "file" }, codeLensProvider),
+    vscode.languages.registerHoverProvider({ scheme: "file" }, new IssueHoverProvider(provider)),
+    // Fires for new issues as well as for issue locations moved by edits
+    provider.onDidChangeTreeData(update),
+    vscode.window.onDidChangeVisibleTextEditors(update),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("sonarExtension.gutterIcons") || event.affectsConfiguration("sonarExtension.codeLens")) {
+        update();
+      }
+    })
+  );
 }
 
 // ---- Deactivate ----
 export function deactivate() {
   if (diagnosticCollection) {diagnosticCollection.dispose();}
+  eslintWorker?.terminate();
 }
@@ -0,0 +1,227 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as cp from "child_process";
+import { SonarIssue } from "./issueModel";
+import { SonarConfig, sonarFetch } from "./sonarClient";
+import { analyzedSources, computeLineMapping } from "./issueTracking";
+
+// Git of the workspace folders: the checked out branch picks the SonarQube branch or pull request,
+// and git blame tells which issues sit on lines the user wrote for the "My Issues" scopes.
+
+export interface BranchTarget {
+  branch?: string;
+  pullRequest?: string;
+  label?: string;
+}
+
+// Subset of the built-in git extension API (extensions/git/src/api/git.d.ts) used here
+interface GitRepository {
+  readonly rootUri: vscode.Uri;
+  readonly state: {
+    readonly HEAD: { readonly name?: string } | undefined;
+    readonly onDidChange: vscode.Event<void>;
+  };
+}
+
+interface GitAPI {
+  readonly repositories: GitRepository[];
+  readonly onDidOpenRepository: vscode.Event<GitRepository>;
+  getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+async function getGitApi(): Promise<GitAPI | undefined> {
+  const extension = vscode.extensions.getExtension<{ enabled: boolean; getAPI(version: 1): GitAPI }>("vscode.git");
+  if (!extension) { return undefined; }
+  try {
+    const exports = extension.isActive ? extension.exports : await extension.activate();
+    return exports.enabled ? exports.getAPI(1) : undefined;
+  } catch (error) {
+    console.error("Git extension is not available:", error);
+    return undefined;
+  }
+}
+
+// Fallback when the git extension is disabled: read HEAD of the enclosing repository
+function readGitHead(folderPath: string): string | undefined {
+  let dir = folderPath;
+  while (true) {
+    const dotGit = path.join(dir, ".git");
+    if (fs.existsSync(dotGit)) {
+      let gitDir = dotGit;
+      // Worktrees and submodules have a .git file pointing at the real git dir
+      if (fs.statSync(dotGit).isFile()) {
+        const match = /^gitdir:\s*(.+)$/m.exec(fs.readFileSync(dotGit, "utf8"));
+        if (!match) { return undefined; }
+        gitDir = path.resolve(dir, match[1].trim());
+      }
+      const head = fs.readFileSync(path.join(gitDir, "HEAD"), "utf8").trim();
+      // A detached HEAD has no branch name
+      return /^ref:\s*refs\/heads\/(.+)$/.exec(head)?.[1];
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) { return undefined; }
+    dir = parent;
+  }
+}
+
+export async function detectGitBranch(folder: vscode.WorkspaceFolder): Promise<string | undefined> {
+  const gitApi = await getGitApi();
+  const repository = gitApi?.getRepository(folder.uri);
+  if (repository) {
+    return repository.state.HEAD?.name;
+  }
+  return readGitHead(folder.uri.fsPath);
+}
+
+// Maps the local git branch to a SonarQube branch or pull request, unless one is set in the settings
+export async function resolveBranchTarget(folder: vscode.WorkspaceFolder, config: SonarConfig): Promise<BranchTarget> {
+  const settings = vscode.workspace.getConfiguration("sonarExtension", folder.uri);
+  const pullRequestOverride = settings.get<string>("pullRequest");
+  if (pullRequestOverride) {
+    return { pullRequest: pullRequestOverride, label: `PR #${pullRequestOverride}` };
+  }
+  const branchOverride = settings.get<string>("branch");
+  if (branchOverride) {
+    return { branch: branchOverride, label: branchOverride };
+  }
+
+  const localBranch = await detectGitBranch(folder);
+  if (!localBranch) { return {}; }
+
+  const { projectKey } = config;
+  const branchesRes = await sonarFetch(config, `/api/project_branches/list?project=${encodeURIComponent(projectKey)}`);
+  const branches: { name: string; isMain: boolean }[] = branchesRes.ok ? (await branchesRes.json()).branches || [] : [];
+  const branch = branches.find((b) => b.name === localBranch);
+  if (branch) {
+    // The main branch is what the API returns without a branch parameter
+    return branch.isMain ? { label: branch.name } : { branch: branch.name, label: branch.name };
+  }
+
+  // Pull request analysis is not available on every edition, a failing call just means "no PRs"
+  const pullRequestsRes = await sonarFetch(config, `/api/project_pull_requests/list?project=${encodeURIComponent(projectKey)}`);
+  const pullRequests: { key: string; branch: string }[] = pullRequestsRes.ok ? (await pullRequestsRes.json()).pullRequests || [] : [];
+  const pullRequest = pullRequests.find((pr) => pr.branch === localBranch);
+  if (pullRequest) {
+    return { pullRequest: pullRequest.key, label: `PR #${pullRequest.key}` };
+  }
+
+  const main = branches.find((b) => b.isMain)?.name || "main";
+  return { label: `${main} (${localBranch} not analyzed)` };
+}
+
+// Calls onBranchChanged when HEAD moves to another branch in any folder of the workspace
+export async function watchBranchChanges(context: vscode.ExtensionContext, onBranchChanged: () => void) {
+  const gitApi = await getGitApi();
+  if (gitApi) {
+    const watchRepository = (repository: GitRepository) => {
+      let lastBranch = repository.state.HEAD?.name;
+      context.subscriptions.push(
+        repository.state.onDidChange(() => {
+          const branch = repository.state.HEAD?.name;
+          // HEAD is unknown until the repository finished loading, that is not a checkout
+          const checkedOut = lastBranch !== undefined && branch !== lastBranch;
+          lastBranch = branch;
+          if (checkedOut) {
+            onBranchChanged();
+          }
+        })
+      );
+    };
+    gitApi.repositories.forEach(watchRepository);
+    context.subscriptions.push(gitApi.onDidOpenRepository(watchRepository));
+    return;
+  }
+
+  const watcher = vscode.workspace.createFileSystemWatcher("**/.git/HEAD");
+  watcher.onDidChange(onBranchChanged);
+  context.subscriptions.push(watcher);
+}
+
+// git blame of a file, kept until the file on disk or its unsaved editor contents change
+const blameCache: Map<string, { version: string; authors: string[] }> = new Map();
+const uncommittedAuthor = "not.committed.yet";
+// git blame processes running at the same time
+const blameConcurrency = 4;
+
+function runGit(args: string[], cwd: string, input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = cp.execFile("git", args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.trim() || error.message));
+        return;
+      }
+      resolve(stdout);
+    });
+    if (input !== undefined) {
+      child.stdin?.end(input);
+    }
+  });
+}
+
+// Runs task for every item, at most limit of them at a time
+async function forEachLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
+
+// Author e-mail of every line (index 0 is line 1), uncommitted lines belong to the user.
+// An unsaved editor is blamed with its contents, so the lines match what the user sees.
+async function blameFile(filePath: string, cwd: string): Promise<string[] | undefined> {
+  const document = vscode.workspace.textDocuments.find((doc) => doc.uri.scheme === "file" && doc.uri.fsPath === filePath && doc.isDirty);
+  const version = document ? `buffer:${document.version}` : `disk:${fs.statSync(filePath).mtimeMs}`;
+  const cached = blameCache.get(filePath);
+  if (cached?.version === version) { return cached.authors; }
+
+  let output: string;
+  try {
+    const contents = document ? ["--contents", "-"] : [];
+    output = await runGit(["blame", "--line-porcelain", ...contents, "--", path.relative(cwd, filePath)], cwd, document?.getText());
+  } catch (error) {
+    // Untracked or ignored file, or no git repository at all
+    console.error(`git blame failed for ${filePath}:`, error);
+    return undefined;
+  }
+  const authors = output
+    .split("\n")
+    .filter((line) => line.startsWith("author-mail "))
+    .map((line) => line.substring("author-mail ".length).replace(/^<|>$/g, "").toLowerCase());
+  blameCache.set(filePath, { version, authors });
+  return authors;
+}
+
+// Line of the issue in the blamed contents: the issues are fresh from the server, so their lines are
+// those of the analyzed source, which the editor's contents may have moved since
+function blamedLine(issue: SonarIssue): number {
+  const analyzed = analyzedSources.get(issue.filePath);
+  const document = vscode.workspace.textDocuments.find((doc) => doc.uri.scheme === "file" && doc.uri.fsPath === issue.filePath && doc.isDirty);
+  if (!analyzed || !document) { return issue.line; }
+  const mapping = computeLineMapping(analyzed, document.getText().split(/\r?\n/));
+  return (mapping[issue.line - 1]?.line ?? issue.line - 1) + 1;
+}
+
+// Issues on lines the user touched last, joined with the issues assigned to them
+export async function filterMyIssues(folder: vscode.WorkspaceFolder, issues: SonarIssue[], assigned: SonarIssue[]): Promise<SonarIssue[]> {
+  const cwd = folder.uri.fsPath;
+  const email = (await runGit(["config", "user.email"], cwd).catch(() => "")).trim().toLowerCase();
+
+  const mine: Map<string, SonarIssue> = new Map(assigned.map((issue) => [issue.key!, issue]));
+  const byFile: Map<string, SonarIssue[]> = new Map();
+  issues.forEach((issue) => byFile.set(issue.filePath, [...(byFile.get(issue.filePath) || []), issue]));
+  await forEachLimited(Array.from(byFile.entries()), blameConcurrency, async ([filePath, fileIssues]) => {
+    const authors = await blameFile(filePath, cwd);
+    if (!authors) { return; }
+    fileIssues
+      .filter((issue) => {
+        const author = authors[blamedLine(issue) - 1];
+        return author === uncommittedAuthor || (!!email && author === email);
+      })
+      .forEach((issue) => mine.set(issue.key!, issue));
+  });
+  return Array.from(mine.values());
+}
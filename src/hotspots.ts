@@ -0,0 +1,289 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { IssueTextRange, formatStatus, toRange } from "./issueModel";
+import {
+  SonarApiError, SonarConfig, branchParams, componentToPath, fetchServerVersion, newCodeParam, newCodeParams, sonarApiError,
+  sonarFetch, sonarGet, sonarPost,
+} from "./sonarClient";
+import { getSonarConfigFor, hasSonarConfig, readSonarConfig } from "./config";
+import { resolveBranchTarget } from "./git";
+import { fetchSonarRule } from "./rules";
+import { escapeHtml, renderSonarRule, renderWebviewHtml } from "./webviews";
+
+// Security Hotspots to review: the Hotspots view grouped by review priority and security category,
+// the details panel with the rule's risk description, and the review action.
+
+export class SonarHotspot {
+  constructor(
+    public readonly key: string,
+    public readonly message: string,
+    public readonly ruleKey: string,
+    public readonly securityCategory: string,
+    public readonly vulnerabilityProbability: string,
+    public readonly filePath: string,
+    public readonly line: number,
+    public readonly textRange?: IssueTextRange
+  ) { }
+}
+
+export class HotspotGroupNode {
+  constructor(
+    public readonly probability: string,
+    public readonly category?: string
+  ) { }
+}
+
+type HotspotTreeElement = HotspotGroupNode | SonarHotspot;
+
+const hotspotProbabilities = ["HIGH", "MEDIUM", "LOW"];
+
+export class SonarHotspotsProvider implements vscode.TreeDataProvider<HotspotTreeElement> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<HotspotTreeElement | undefined | null | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private hotspots: SonarHotspot[] = [];
+
+  private treeView: vscode.TreeView<HotspotTreeElement> | undefined;
+
+  public setTreeView(treeView: vscode.TreeView<HotspotTreeElement>) {
+    this.treeView = treeView;
+  }
+
+  setHotspots(hotspots: SonarHotspot[]): void {
+    this.hotspots = hotspots;
+    if (this.treeView) {
+      this.treeView.message = hotspots.length === 0 ? " No Security Hotspots to review." : undefined;
+    }
+    this._onDidChangeTreeData.fire();
+  }
+
+  removeHotspot(hotspot: SonarHotspot): void {
+    this.setHotspots(this.hotspots.filter((h) => h !== hotspot));
+  }
+
+  private hotspotsIn(group: HotspotGroupNode): SonarHotspot[] {
+    return this.hotspots.filter(
+      (h) => h.vulnerabilityProbability === group.probability && (!group.category || h.securityCategory === group.category)
+    );
+  }
+
+  getTreeItem(element: HotspotTreeElement): vscode.TreeItem {
+    if (element instanceof HotspotGroupNode) {
+      const label = element.category
+        ? formatSecurityCategory(element.category)
+        : `${formatStatus(element.probability)} Priority`;
+      const treeItem = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Expanded);
+      treeItem.description = `${this.hotspotsIn(element).length} hotspots`;
+      if (!element.category) {
+        treeItem.iconPath = new vscode.ThemeIcon("shield");
+      }
+      return treeItem;
+    }
+
+    const treeItem = new vscode.TreeItem(element.message, vscode.TreeItemCollapsibleState.None);
+    treeItem.description = `${vscode.workspace.asRelativePath(element.filePath)}:${element.line}`;
+    treeItem.tooltip = `${element.ruleKey} [${element.vulnerabilityProbability}]`;
+    treeItem.contextValue = "sonarHotspot";
+    treeItem.iconPath = new vscode.ThemeIcon("flame", new vscode.ThemeColor(
+      element.vulnerabilityProbability === "HIGH" ? "problemsErrorIcon.foreground" : "problemsWarningIcon.foreground"
+    ));
+    treeItem.command = {
+      command: "vscode.open",
+      title: "Open Hotspot",
+      arguments: [vscode.Uri.file(element.filePath), { selection: toRange(element.textRange, element.line) }],
+    };
+    return treeItem;
+  }
+
+  getChildren(element?: HotspotTreeElement): Thenable<HotspotTreeElement[]> {
+    if (!element) {
+      const probabilities = hotspotProbabilities.filter((p) => this.hotspots.some((h) => h.vulnerabilityProbability === p));
+      return Promise.resolve(probabilities.map((p) => new HotspotGroupNode(p)));
+    } else if (element instanceof HotspotGroupNode && !element.category) {
+      const categories = [...new Set(this.hotspotsIn(element).map((h) => h.securityCategory))].sort();
+      return Promise.resolve(categories.map((c) => new HotspotGroupNode(element.probability, c)));
+    } else if (element instanceof HotspotGroupNode) {
+      return Promise.resolve(this.hotspotsIn(element).sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line));
+    }
+    return Promise.resolve([]);
+  }
+}
+
+const securityCategoryLabels: Record<string, string> = {
+  "sql-injection": "SQL Injection",
+  "command-injection": "Command Injection",
+  "path-traversal-injection": "Path Traversal Injection",
+  "ldap-injection": "LDAP Injection",
+  "xpath-injection": "XPath Injection",
+  rce: "Code Injection (RCE)",
+  dos: "Denial of Service (DoS)",
+  ssrf: "Server-Side Request Forgery (SSRF)",
+  csrf: "Cross-Site Request Forgery (CSRF)",
+  xss: "Cross-Site Scripting (XSS)",
+  xxe: "XML External Entity (XXE)",
+  "log-injection": "Log Injection",
+  "open-redirect": "Open Redirect",
+  "weak-cryptography": "Weak Cryptography",
+  auth: "Authentication",
+  "insecure-conf": "Insecure Configuration",
+  "file-manipulation": "File Manipulation",
+  "encrypt-data": "Encryption of Sensitive Data",
+  "traceability": "Traceability",
+  "permission": "Permission",
+  "others": "Others",
+};
+
+const hotspotResolutions: { label: string; resolution: string; detail: string }[] = [
+  { label: "Safe", resolution: "SAFE", detail: "The code has been reviewed and does not pose a risk." },
+  { label: "Fixed", resolution: "FIXED", detail: "The code has been modified to follow recommended secure coding practices." },
+  { label: "Acknowledged", resolution: "ACKNOWLEDGED", detail: "The code has been reviewed and does pose a risk. A fix is required." },
+];
+
+let hotspotPanel: vscode.WebviewPanel | undefined;
+
+// A hotspot as /api/hotspots/search returns it, only the fields the extension reads
+interface SonarApiHotspot {
+  key: string;
+  component: string;
+  message?: string;
+  ruleKey?: string;
+  securityCategory?: string;
+  vulnerabilityProbability?: string;
+  line?: number;
+  textRange?: IssueTextRange;
+}
+
+interface HotspotSearchResponse {
+  hotspots?: SonarApiHotspot[];
+  paging: { total: number };
+}
+
+// Hotspots of the last successful refresh per folder and code scope, kept while the server cannot be reached
+const lastHotspots: Map<string, SonarHotspot[]> = new Map();
+
+function formatSecurityCategory(category: string): string {
+  return securityCategoryLabels[category]
+    || category.split("-").map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+}
+
+async function fetchFolderHotspots(folder: vscode.WorkspaceFolder, newCodeOnly: boolean): Promise<SonarHotspot[]> {
+  const connection = await readSonarConfig(folder);
+  if (!connection) { return []; }
+  const target = await resolveBranchTarget(folder, connection);
+  const config: SonarConfig = { ...connection, branch: target.branch, pullRequest: target.pullRequest };
+  const { server, token, projectKey } = config;
+  const workspaceRoot = folder.uri.fsPath;
+
+  const hotspots: SonarHotspot[] = [];
+  let page = 1;
+  const pageSize = 500;
+  let newCodeFilter = newCodeOnly ? newCodeParam(config, await fetchServerVersion(config)) : "";
+  while (true) {
+    const apiPath = `/api/hotspots/search?project=${encodeURIComponent(projectKey)}&status=TO_REVIEW&p=${page}&ps=${pageSize}${newCodeFilter}${branchParams(config)}`;
+    const res = await sonarFetch(config, apiPath);
+    if (res.status === 400 && newCodeFilter === newCodeParams.current) {
+      newCodeFilter = newCodeParams.legacy;
+      continue;
+    }
+    if (!res.ok) { throw await sonarApiError(res, config, apiPath); }
+    const data: HotspotSearchResponse = await res.json();
+    if (!data.hotspots || data.hotspots.length === 0) { break; }
+
+    data.hotspots.forEach((hotspot) => {
+      const filePath = componentToPath(hotspot.component, projectKey, workspaceRoot);
+      if (!fs.existsSync(filePath)) { return; }
+      hotspots.push(new SonarHotspot(
+        hotspot.key,
+        hotspot.message || "Unknown",
+        hotspot.ruleKey || "Unknown",
+        hotspot.securityCategory || "others",
+        hotspot.vulnerabilityProbability || "LOW",
+        filePath,
+        hotspot.textRange?.startLine || hotspot.line || 1,
+        hotspot.textRange
+      ));
+    });
+    if (data.paging.total <= page * pageSize) { break; }
+    page++;
+  }
+  return hotspots;
+}
+
+export async function refreshHotspots(provider: SonarHotspotsProvider, newCodeOnly: boolean) {
+  const folders = (vscode.workspace.workspaceFolders || []).filter(hasSonarConfig);
+  const results = await Promise.all(folders.map(async (folder) => {
+    const key = `${folder.uri.toString()} ${newCodeOnly}`;
+    try {
+      lastHotspots.set(key, await fetchFolderHotspots(folder, newCodeOnly));
+    } catch (error) {
+      // Offline the folder keeps the hotspots of its last refresh, other failures need the user's attention
+      if (error instanceof SonarApiError && error.status === undefined) {
+        console.error(`Failed to refresh the Security Hotspots of ${folder.name}:`, error);
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to refresh Security Hotspots for "${folder.name}": ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+    return lastHotspots.get(key) || [];
+  }));
+  provider.setHotspots(results.flat());
+}
+
+export async function showHotspotDetails(hotspot: SonarHotspot) {
+  const config = await getSonarConfigFor(hotspot.filePath);
+  if (!config) { return; }
+
+  const res = await sonarGet(config, `/api/hotspots/show?hotspot=${encodeURIComponent(hotspot.key)}`);
+  const details = await res.json();
+
+  // Older servers embed the rule texts in the hotspot, newer ones only expose them through the rule
+  let ruleHtml: string;
+  if (details.rule?.riskDescription) {
+    ruleHtml = `<h2>What's the risk?</h2>${details.rule.riskDescription}
+<h2>Assess the risk</h2>${details.rule.vulnerabilityDescription || ""}
+<h2>How can I fix it?</h2>${details.rule.fixRecommendations || ""}`;
+  } else {
+    const rule = await fetchSonarRule(config, hotspot.ruleKey);
+    ruleHtml = renderSonarRule(rule);
+  }
+
+  const comments = (details.comment || [])
+    .map((c: { login: string; htmlText: string; createdAt: string }) =>
+      `<p><strong>${escapeHtml(c.login)}</strong> <span class="meta">${escapeHtml(c.createdAt.substring(0, 10))}</span></p>${c.htmlText}`)
+    .join("");
+
+  const content = `<h1>${escapeHtml(hotspot.message)}</h1>
+<p class="meta">${escapeHtml(formatSecurityCategory(hotspot.securityCategory))} · Review priority ${escapeHtml(formatStatus(hotspot.vulnerabilityProbability))}
+ · ${escapeHtml(vscode.workspace.asRelativePath(hotspot.filePath))}:${hotspot.line}${details.author ? ` · introduced by ${escapeHtml(details.author)}` : ""}</p>
+${ruleHtml}
+${comments ? `<h2>Comments</h2>${comments}` : ""}`;
+
+  if (!hotspotPanel) {
+    hotspotPanel = vscode.window.createWebviewPanel("sonarHotspotDetails", "Security Hotspot", vscode.ViewColumn.Beside, {});
+    hotspotPanel.onDidDispose(() => { hotspotPanel = undefined; });
+  } else {
+    hotspotPanel.reveal(vscode.ViewColumn.Beside, true);
+  }
+  hotspotPanel.webview.html = renderWebviewHtml(hotspotPanel.webview, content);
+}
+
+export async function reviewHotspot(hotspot: SonarHotspot, provider: SonarHotspotsProvider) {
+  const config = await getSonarConfigFor(hotspot.filePath);
+  if (!config) { return; }
+
+  const picked = await vscode.window.showQuickPick(hotspotResolutions, { placeHolder: `Review "${hotspot.message}"` });
+  if (!picked) { return; }
+  const comment = await vscode.window.showInputBox({ prompt: "Optional comment explaining the review", ignoreFocusOut: true });
+  if (comment === undefined) { return; }
+
+  const params: Record<string, string> = { hotspot: hotspot.key, status: "REVIEWED", resolution: picked.resolution };
+  if (comment) {
+    params.comment = comment;
+  }
+  await sonarPost(config, "/api/hotspots/change_status", params);
+  // Only hotspots to review are listed, a reviewed one leaves the view
+  provider.removeHotspot(hotspot);
+  lastHotspots.forEach((hotspots, key) => lastHotspots.set(key, hotspots.filter((h) => h.key !== hotspot.key)));
+  vscode.window.showInformationMessage(`Hotspot marked as ${picked.label}.`);
+}
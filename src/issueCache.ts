@@ -0,0 +1,51 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { SonarApiIssue } from "./sonarClient";
+
+// Offline cache of the last fetched issues, one JSON file per cache key in the extension's workspace storage.
+// The panel shows cached issues while the first refresh runs and whenever the server cannot be reached.
+
+export interface IssueCacheEntry {
+  server: string;
+  projectKey: string;
+  serverVersion?: string;
+  fetchedAt: string;
+  analysisDate?: string;
+  // Raw /api/issues/search results, mapped to SonarIssue again when loaded
+  issues: SonarApiIssue[];
+}
+
+const cacheDirectory = "issue-cache";
+
+export function issueCachePath(storagePath: string, key: string): string {
+  const hash = crypto.createHash("sha1").update(key).digest("hex");
+  return path.join(storagePath, cacheDirectory, `${hash}.json`);
+}
+
+export function readIssueCache(file: string): IssueCacheEntry | undefined {
+  try {
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : undefined;
+  } catch (error) {
+    console.error("Ignoring unreadable issue cache:", error);
+    return undefined;
+  }
+}
+
+export function writeIssueCache(file: string, entry: IssueCacheEntry) {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(entry));
+  } catch (error) {
+    console.error("Failed to write issue cache:", error);
+  }
+}
+
+export function clearIssueCache(storagePath: string) {
+  fs.rmSync(path.join(storagePath, cacheDirectory), { recursive: true, force: true });
+}
+
+export function describeCacheEntry(state: string, entries: IssueCacheEntry[]): string {
+  const dates = entries.map((entry) => entry.analysisDate || entry.fetchedAt).sort();
+  return `${state} (last analysis ${new Date(dates[0]).toLocaleString()})`;
+}
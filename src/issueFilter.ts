@@ -0,0 +1,78 @@
+import { softwareQualities } from "./issueModel";
+import { SonarConfig, impactSeverityChoices, isServerVersionAtLeast, supportsImpacts } from "./sonarClient";
+
+// The issue filter of the Issues view: which issues the server search returns and which local issues are shown.
+// The filter itself is kept in extension.ts, in sync with the sonarExtension settings.
+
+export interface IssueFilter {
+  severities: string[];
+  // Used instead of severities once the server supports impacts
+  softwareQualities: string[];
+  impactSeverities: string[];
+  // Empty lists and strings do not restrict the search
+  types: string[];
+  rules: string[];
+  tags: string[];
+  author: string;
+  assignedToMe: boolean;
+  statuses: string[];
+  // YYYY-MM-DD
+  createdAfter: string;
+}
+
+// Named filter of the sonarExtension.filterPresets setting, missing fields keep their default
+export interface IssueFilterPreset extends Partial<IssueFilter> {
+  name: string;
+}
+
+export const defaultIssueFilter: IssueFilter = {
+  severities: ["BLOCKER"],
+  softwareQualities,
+  impactSeverities: ["BLOCKER", "HIGH"],
+  types: [],
+  rules: [],
+  tags: [],
+  author: "",
+  assignedToMe: false,
+  statuses: ["OPEN", "REOPENED", "CONFIRMED"],
+  createdAfter: "",
+};
+
+export function sameIssueFilter(a: IssueFilter, b: IssueFilter): boolean {
+  const normalize = (filter: IssueFilter) =>
+    JSON.stringify(Object.keys(defaultIssueFilter).sort().map((key) => {
+      const value = filter[key as keyof IssueFilter];
+      return Array.isArray(value) ? [...value].sort() : value;
+    }));
+  return normalize(a) === normalize(b);
+}
+
+export function presetFilter(preset: IssueFilterPreset): IssueFilter {
+  const { name, ...filter } = preset;
+  return { ...defaultIssueFilter, ...filter };
+}
+
+// Query parameters of /api/issues/search for the filter
+export function issueFilterParams(filter: IssueFilter, config: SonarConfig, serverVersion: string | undefined): string {
+  const list = (values: string[]) => values.map(encodeURIComponent).join(",");
+  let params = `&severities=${list(filter.severities)}`;
+  if (supportsImpacts(config, serverVersion)) {
+    // BLOCKER and INFO impacts only exist since SonarQube 10.8, older servers reject them
+    const knownSeverities = isServerVersionAtLeast(serverVersion, 10, 8) || config.organization
+      ? impactSeverityChoices
+      : ["HIGH", "MEDIUM", "LOW"];
+    const impactSeverities = filter.impactSeverities.filter((severity) => knownSeverities.includes(severity));
+    // An empty list is rejected by some servers and matches nothing on others, leaving it out matches everything
+    params = "";
+    if (filter.softwareQualities.length > 0) { params += `&impactSoftwareQualities=${list(filter.softwareQualities)}`; }
+    if (impactSeverities.length > 0) { params += `&impactSeverities=${list(impactSeverities)}`; }
+  }
+  params += `&statuses=${list(filter.statuses)}`;
+  if (filter.types.length > 0) { params += `&types=${list(filter.types)}`; }
+  if (filter.rules.length > 0) { params += `&rules=${list(filter.rules)}`; }
+  if (filter.tags.length > 0) { params += `&tags=${list(filter.tags)}`; }
+  if (filter.author) { params += `&author=${encodeURIComponent(filter.author)}`; }
+  if (filter.assignedToMe) { params += "&assignees=__me__"; }
+  if (filter.createdAfter) { params += `&createdAfter=${encodeURIComponent(filter.createdAfter)}`; }
+  return params;
+}
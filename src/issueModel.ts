@@ -0,0 +1,238 @@
+import * as vscode from "vscode";
+import type { Linter, Rule } from "eslint";
+import type { LineState } from "./issueTracking";
+
+// The issue model shared by the Issues tree, diagnostics, reports and analyzers.
+// Server issues, local analyzer results and imported reports all become SonarIssue objects.
+
+export interface IssueTextRange {
+  startLine: number;
+  endLine: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface IssueLocation {
+  filePath: string;
+  textRange?: IssueTextRange;
+  message: string;
+}
+
+// A flow is an ordered path of secondary locations (e.g. the steps of a taint trace)
+export type IssueFlow = IssueLocation[];
+
+// Software quality an issue affects and how much, SonarQube 10.2+ replacement of type and severity
+export interface IssueImpact {
+  softwareQuality: string;
+  severity: string;
+}
+
+export interface SonarIssueDetails {
+  key?: string;
+  status?: string;
+  assignee?: string;
+  transitions?: string[];
+  textRange?: IssueTextRange;
+  flows?: IssueFlow[];
+  type?: string;
+  creationDate?: string;
+  source?: string;
+  impacts?: IssueImpact[];
+  cleanCodeAttribute?: string;
+  cleanCodeAttributeCategory?: string;
+  reportFile?: string;
+  fix?: Rule.Fix;
+  suggestions?: Linter.LintSuggestion[];
+  lintedVersion?: number;
+  effort?: string;
+  author?: string;
+  updateDate?: string;
+  tags?: string[];
+}
+
+export class SonarIssue {
+  public readonly key?: string;
+  // Server side state, updated in place when the issue is triaged from the tree
+  public status?: string;
+  public assignee?: string;
+  public transitions: string[];
+  public readonly textRange?: IssueTextRange;
+  public readonly flows: IssueFlow[];
+  public readonly type?: string;
+  public readonly creationDate?: string;
+  public readonly impacts: IssueImpact[];
+  public readonly cleanCodeAttribute?: string;
+  public readonly cleanCodeAttributeCategory?: string;
+  // SARIF or generic issue report the issue was imported from
+  public readonly reportFile?: string;
+  // ESLint autofix and suggestions, as offsets into the linted text
+  public readonly fix?: Rule.Fix;
+  public readonly suggestions: Linter.LintSuggestion[];
+  // Version of the open document that was linted, undefined when the file was linted from disk
+  public readonly lintedVersion?: number;
+  // Remediation effort estimated by SonarQube, e.g. "5min"
+  public readonly effort?: string;
+  // SCM author of the line that introduced the issue
+  public readonly author?: string;
+  public readonly updateDate?: string;
+  public readonly tags: string[];
+  // Diagnostic source the issue is reported under, e.g. "SonarQube" or "ESLint"
+  public readonly source: string;
+  // Location in the edited buffer when it moved since the analyzed revision, see trackDocumentIssues
+  public trackedLine?: number;
+  public trackedTextRange?: IssueTextRange;
+  public trackingState?: LineState;
+
+  constructor(
+    public readonly message: string,
+    public readonly rule: string,
+    public readonly severity: string,
+    public readonly filePath: string,
+    public readonly line: number,
+    details: SonarIssueDetails = {}
+  ) {
+    this.key = details.key;
+    this.status = details.status;
+    this.assignee = details.assignee;
+    this.transitions = details.transitions || [];
+    this.textRange = details.textRange;
+    this.flows = details.flows || [];
+    this.type = details.type;
+    this.creationDate = details.creationDate;
+    this.impacts = details.impacts || [];
+    this.cleanCodeAttribute = details.cleanCodeAttribute;
+    this.cleanCodeAttributeCategory = details.cleanCodeAttributeCategory;
+    this.reportFile = details.reportFile;
+    this.fix = details.fix;
+    this.suggestions = details.suggestions || [];
+    this.lintedVersion = details.lintedVersion;
+    this.effort = details.effort;
+    this.author = details.author;
+    this.updateDate = details.updateDate;
+    this.tags = details.tags || [];
+    this.source = details.source || (details.key ? "SonarQube" : "ESLint");
+  }
+
+  get currentLine(): number {
+    return this.trackedLine ?? this.line;
+  }
+
+  get currentTextRange(): IssueTextRange | undefined {
+    return this.trackedTextRange ?? this.textRange;
+  }
+}
+
+// Legacy severities and impact severities interleaved, so issues of both taxonomies sort together
+export const severityOrder = ["BLOCKER", "CRITICAL", "HIGH", "MAJOR", "MEDIUM", "MINOR", "LOW", "INFO"];
+
+export const softwareQualities = ["SECURITY", "RELIABILITY", "MAINTAINABILITY"];
+
+const cleanCodeCategoryLabels: Record<string, string> = {
+  CONSISTENT: "Consistency",
+  INTENTIONAL: "Intentionality",
+  ADAPTABLE: "Adaptability",
+  RESPONSIBLE: "Responsibility",
+};
+
+export const issueTypeLabels: Record<string, string> = {
+  BUG: "Bug",
+  VULNERABILITY: "Vulnerability",
+  CODE_SMELL: "Code Smell",
+};
+
+export function severityIcon(severity: string): vscode.ThemeIcon {
+  switch (severity) {
+    case "BLOCKER":
+    case "CRITICAL":
+    case "HIGH":
+      return new vscode.ThemeIcon("error", new vscode.ThemeColor("problemsErrorIcon.foreground"));
+    case "MAJOR":
+    case "MEDIUM":
+      return new vscode.ThemeIcon("warning", new vscode.ThemeColor("problemsWarningIcon.foreground"));
+    case "MINOR":
+    case "LOW":
+    case "INFO":
+      return new vscode.ThemeIcon("info", new vscode.ThemeColor("problemsInfoIcon.foreground"));
+    default:
+      return new vscode.ThemeIcon("info");
+  }
+}
+
+// Set when the connected server reports software quality impacts (SonarQube 10.2+ or SonarCloud)
+let impactsSupported = false;
+
+export function setImpactsSupported(supported: boolean) {
+  impactsSupported = supported;
+}
+
+export function isImpactsSupported(): boolean {
+  return impactsSupported;
+}
+
+// Highest impact severity on servers with the Clean Code taxonomy, the legacy severity otherwise
+export function displaySeverity(issue: SonarIssue): string {
+  if (!impactsSupported || issue.impacts.length === 0) {
+    return issue.severity;
+  }
+  return issue.impacts
+    .map((impact) => impact.severity)
+    .sort((a, b) => severityOrder.indexOf(a) - severityOrder.indexOf(b))[0];
+}
+
+export function describeImpacts(issue: SonarIssue): string {
+  return issue.impacts.map((impact) => `${formatStatus(impact.softwareQuality)}: ${formatStatus(impact.severity)}`).join(", ");
+}
+
+export function describeCleanCodeAttribute(issue: SonarIssue): string | undefined {
+  if (!issue.cleanCodeAttribute) { return undefined; }
+  const category = issue.cleanCodeAttributeCategory;
+  const attribute = formatStatus(issue.cleanCodeAttribute);
+  return category ? `${cleanCodeCategoryLabels[category] || formatStatus(category)} · ${attribute}` : attribute;
+}
+
+export function groupBy(issues: SonarIssue[], keyOf: (issue: SonarIssue) => string): Map<string, SonarIssue[]> {
+  const groups: Map<string, SonarIssue[]> = new Map();
+  issues.forEach((issue) => {
+    const key = keyOf(issue);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(issue);
+  });
+  return groups;
+}
+
+export function formatStatus(status: string): string {
+  return status.charAt(0) + status.slice(1).toLowerCase().replace(/_/g, " ");
+}
+
+export function mapSeverity(sev: string): { vscodeSeverity: vscode.DiagnosticSeverity; prefix: string } {
+  switch (sev) {
+    case "BLOCKER":
+      return { vscodeSeverity: vscode.DiagnosticSeverity.Error, prefix: "BLOCKER" };
+    case "CRITICAL":
+      return { vscodeSeverity: vscode.DiagnosticSeverity.Error, prefix: "CRITICAL" };
+    case "MAJOR":
+      return { vscodeSeverity: vscode.DiagnosticSeverity.Warning, prefix: "MAJOR" };
+    case "MINOR":
+      return { vscodeSeverity: vscode.DiagnosticSeverity.Information, prefix: "MINOR" };
+    case "INFO":
+      return { vscodeSeverity: vscode.DiagnosticSeverity.Information, prefix: "INFO" };
+    case "HIGH":
+      return { vscodeSeverity: vscode.DiagnosticSeverity.Error, prefix: "HIGH" };
+    case "MEDIUM":
+      return { vscodeSeverity: vscode.DiagnosticSeverity.Warning, prefix: "MEDIUM" };
+    case "LOW":
+      return { vscodeSeverity: vscode.DiagnosticSeverity.Information, prefix: "LOW" };
+    default:
+      return { vscodeSeverity: vscode.DiagnosticSeverity.Information, prefix: "INFO" };
+  }
+}
+
+// Falls back to the whole line when the issue has no precise range (e.g. file level issues)
+export function toRange(textRange: IssueTextRange | undefined, line: number): vscode.Range {
+  if (!textRange) {
+    return new vscode.Range(line - 1, 0, line - 1, 100);
+  }
+  return new vscode.Range(textRange.startLine - 1, textRange.startOffset, textRange.endLine - 1, textRange.endOffset);
+}
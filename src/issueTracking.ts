@@ -0,0 +1,242 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { IssueTextRange } from "./issueModel";
+import { SonarConfig, branchParams, sonarFetch } from "./sonarClient";
+
+// Sonar reports locations of the analyzed revision; these helpers follow them through local edits
+// by diffing the analyzed source (api/sources/raw) against the editor's contents.
+
+export type LineState = "unchanged" | "changed" | "deleted";
+
+export interface LineMapping {
+  // 0-based line in the current buffer
+  line: number;
+  state: LineState;
+}
+
+export interface TrackedFolder {
+  config: SonarConfig;
+  analysisDate?: string;
+}
+
+export const trackedFolders: Map<string, TrackedFolder> = new Map();
+// Analyzed source per file, null when the server does not provide it (e.g. missing permission)
+export const analyzedSources: Map<string, string[] | null> = new Map();
+
+// Cells of Myers' trace kept for the backtracking: the trace grows with the square of the edit distance,
+// this allows about 1,000 changed lines (4 MB) before computeLineMapping falls back to anchorMatches
+const diffTraceLimit = 1_000_000;
+
+// Myers' O(ND) diff, returns the matching [oldLine, newLine] pairs. Gives up (undefined)
+// when the edit distance would need more than maxTrace cells of memory.
+function myersMatches(a: string[], b: string[], maxTrace: number): [number, number][] | undefined {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Step d only reads and writes diagonals -d..d, so only that window is kept of each step
+  const trace: Int32Array[] = [];
+  let traceSize = 0;
+
+  for (let d = 0; d <= max; d++) {
+    traceSize += 2 * d + 1;
+    if (traceSize > maxTrace) { return undefined; }
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrackMatches(trace, n, m);
+      }
+    }
+  }
+  return [];
+}
+
+function backtrackMatches(trace: Int32Array[], n: number, m: number): [number, number][] {
+  const matches: [number, number][] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    // Diagonal k of step d is at index k + d of its window
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : v[prevK + d];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      matches.push([x, y]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return matches.reverse();
+}
+
+// Matching for files that changed too much for the diff: lines that occur exactly once on both sides
+// anchor it, the longest run of anchors in the same order is kept and grown into the equal lines around them
+function anchorMatches(a: string[], b: string[]): [number, number][] {
+  const occurrences: Map<string, { oldCount: number; oldLine: number; newCount: number; newLine: number }> = new Map();
+  a.forEach((text, line) => {
+    const entry = occurrences.get(text) || { oldCount: 0, oldLine: line, newCount: 0, newLine: -1 };
+    entry.oldCount++;
+    occurrences.set(text, entry);
+  });
+  b.forEach((text, line) => {
+    const entry = occurrences.get(text);
+    if (entry) {
+      entry.newCount++;
+      entry.newLine = line;
+    }
+  });
+  const pairs = Array.from(occurrences.values())
+    .filter((entry) => entry.oldCount === 1 && entry.newCount === 1)
+    .map((entry): [number, number] => [entry.oldLine, entry.newLine])
+    .sort((p, q) => p[0] - q[0]);
+
+  // Longest increasing subsequence of the new lines, tails[i] ends the best run of length i + 1
+  const tails: number[] = [];
+  const previous: number[] = new Array(pairs.length);
+  pairs.forEach(([, newLine], index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (pairs[tails[middle]][1] < newLine) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+  const anchors: [number, number][] = [];
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index >= 0; index = previous[index]) {
+    anchors.push(pairs[index]);
+  }
+  anchors.reverse();
+
+  // Repeated lines next to an anchor, like blank lines and closing braces, match as well
+  const matches: [number, number][] = [];
+  let last: [number, number] = [-1, -1];
+  [...anchors, [a.length, b.length] as [number, number]].forEach(([oldLine, newLine]) => {
+    let x = last[0] + 1;
+    let y = last[1] + 1;
+    while (x < oldLine && y < newLine && a[x] === b[y]) {
+      matches.push([x++, y++]);
+    }
+    const before: [number, number][] = [];
+    for (let i = oldLine - 1, j = newLine - 1; i >= x && j >= y && a[i] === b[j]; i--, j--) {
+      before.push([i, j]);
+    }
+    matches.push(...before.reverse());
+    if (oldLine < a.length) {
+      matches.push([oldLine, newLine]);
+    }
+    last = [oldLine, newLine];
+  });
+  return matches;
+}
+
+export function computeLineMapping(oldLines: string[], newLines: string[], maxTrace: number = diffTraceLimit): LineMapping[] {
+  // Common prefix and suffix are cheap to match and keep the diffed middle small
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const matches: [number, number][] = [];
+  for (let i = 0; i < prefix; i++) {
+    matches.push([i, i]);
+  }
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  (myersMatches(oldMiddle, newMiddle, maxTrace) ?? anchorMatches(oldMiddle, newMiddle))
+    .forEach(([i, j]) => matches.push([i + prefix, j + prefix]));
+  for (let i = suffix; i > 0; i--) {
+    matches.push([oldLines.length - i, newLines.length - i]);
+  }
+
+  // Unmatched old lines belong to a hunk between two matches: modified when the hunk
+  // still has lines on the new side, deleted otherwise
+  const mapping: LineMapping[] = new Array(oldLines.length);
+  let previous: [number, number] = [-1, -1];
+  [...matches, [oldLines.length, newLines.length] as [number, number]].forEach(([oldLine, newLine]) => {
+    const newHunkSize = newLine - previous[1] - 1;
+    for (let i = previous[0] + 1; i < oldLine; i++) {
+      mapping[i] = newHunkSize > 0
+        ? { line: Math.min(previous[1] + 1 + (i - previous[0] - 1), newLine - 1), state: "changed" }
+        : { line: Math.max(previous[1], 0), state: "deleted" };
+    }
+    if (oldLine < oldLines.length) {
+      mapping[oldLine] = { line: newLine, state: "unchanged" };
+    }
+    previous = [oldLine, newLine];
+  });
+  return mapping;
+}
+
+export async function loadAnalyzedSource(filePath: string): Promise<string[] | null> {
+  if (analyzedSources.has(filePath)) {
+    return analyzedSources.get(filePath)!;
+  }
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+  const tracked = folder ? trackedFolders.get(folder.uri.toString()) : undefined;
+  if (!folder || !tracked) { return null; }
+
+  const { config } = tracked;
+  const component = `${config.projectKey}:${path.relative(folder.uri.fsPath, filePath).split(path.sep).join("/")}`;
+  let lines: string[] | null = null;
+  try {
+    const res = await sonarFetch(config, `/api/sources/raw?key=${encodeURIComponent(component)}${branchParams(config)}`);
+    if (res.ok) {
+      lines = (await res.text()).split(/\r?\n/);
+    }
+  } catch (error) {
+    console.error(`Failed to fetch analyzed source of ${filePath}:`, error);
+    // Offline: try again on the next change instead of remembering the failure
+    return null;
+  }
+  analyzedSources.set(filePath, lines);
+  return lines;
+}
+
+// Remembers the connection of a folder for source fetches, and drops sources of an older analysis
+export function updateTrackedFolder(folder: vscode.WorkspaceFolder, config: SonarConfig, analysisDate?: string) {
+  const previous = trackedFolders.get(folder.uri.toString());
+  if (previous && previous.analysisDate !== analysisDate) {
+    Array.from(analyzedSources.keys())
+      // With the separator, so /ws/app does not also match /ws/app-web
+      .filter((file) => file.startsWith(folder.uri.fsPath + path.sep))
+      .forEach((file) => analyzedSources.delete(file));
+  }
+  trackedFolders.set(folder.uri.toString(), { config, analysisDate });
+}
+
+export function remapTextRange(range: IssueTextRange, mapping: LineMapping[]): IssueTextRange | undefined {
+  const start = mapping[range.startLine - 1];
+  const end = mapping[range.endLine - 1];
+  if (!start || !end) { return undefined; }
+  return {
+    startLine: start.line + 1,
+    startOffset: range.startOffset,
+    endLine: Math.max(end.line, start.line) + 1,
+    endOffset: range.endOffset,
+  };
+}
@@ -0,0 +1,446 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  IssueFlow, IssueImpact, IssueLocation, IssueTextRange, SonarIssue,
+  describeImpacts, displaySeverity, groupBy, isImpactsSupported, issueTypeLabels, mapSeverity, severityOrder, toRange,
+} from "./issueModel";
+import { escapeHtml } from "./webviews";
+
+// Issue reports in and out of the extension: SARIF and Sonar generic issue reports are read into
+// SonarIssue objects, the issues of the panel are written as SARIF, CSV, Markdown or HTML.
+
+// Parsed reports by absolute path, re-read when the file's modification time changes
+export const importedReports: Map<string, { mtime: number; issues: SonarIssue[] }> = new Map();
+
+const sarifLevelSeverities: Record<string, string> = {
+  error: "CRITICAL",
+  warning: "MAJOR",
+  note: "MINOR",
+  none: "INFO",
+};
+
+// The parts of a SARIF 2.1.0 log the import reads. Reports come from any tool, so every field may be missing.
+interface SarifRegion {
+  startLine?: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+interface SarifLocation {
+  physicalLocation?: {
+    artifactLocation?: { uri?: string; uriBaseId?: string };
+    region?: SarifRegion;
+  };
+  message?: { text?: string };
+}
+
+interface SarifResult {
+  ruleId?: string;
+  rule?: { id?: string };
+  level?: string;
+  message?: { text?: string };
+  locations?: SarifLocation[];
+  codeFlows?: { threadFlows?: { locations?: { location?: SarifLocation }[] }[] }[];
+  // Written by toSarif, so an exported report reads back with its Sonar fields
+  properties?: { severity?: string; type?: string; impacts?: IssueImpact[]; cleanCodeAttribute?: string };
+}
+
+export interface SarifLog {
+  runs?: {
+    tool?: { driver?: { name?: string } };
+    originalUriBaseIds?: Record<string, { uri?: string } | undefined>;
+    results?: SarifResult[];
+  }[];
+}
+
+// Sonar's generic issue import format, columns are 0-based
+interface GenericTextRange {
+  startLine?: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+interface GenericLocation {
+  filePath?: string;
+  message?: string;
+  textRange?: GenericTextRange;
+}
+
+interface GenericRule {
+  id?: string;
+  name?: string;
+  engineId?: string;
+  severity?: string;
+  type?: string;
+  impacts?: IssueImpact[];
+  cleanCodeAttribute?: string;
+}
+
+export interface GenericIssueReport {
+  rules?: GenericRule[];
+  issues?: {
+    ruleId?: string;
+    engineId?: string;
+    severity?: string;
+    type?: string;
+    primaryLocation?: GenericLocation;
+    secondaryLocations?: GenericLocation[];
+  }[];
+}
+
+function listOf<T>(value: T[] | undefined): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// Base directory of the relative paths inside a report: the workspace folder holding it
+function reportRoot(reportFile: string): string {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(reportFile)) || vscode.workspace.workspaceFolders?.[0];
+  return folder ? folder.uri.fsPath : path.dirname(reportFile);
+}
+
+// Undefined for a URI that does not decode, like a path with a literal %
+function resolveReportPath(uri: string, root: string): string | undefined {
+  try {
+    if (/^file:/i.test(uri)) {
+      return vscode.Uri.parse(uri).fsPath;
+    }
+    const decoded = decodeURIComponent(uri);
+    return path.isAbsolute(decoded) ? decoded : path.join(root, decoded);
+  } catch {
+    return undefined;
+  }
+}
+
+// SARIF columns are 1-based and end exclusive, Sonar offsets 0-based
+function sarifTextRange(region: SarifRegion | undefined): IssueTextRange | undefined {
+  if (!region?.startLine || !region.startColumn) { return undefined; }
+  return {
+    startLine: region.startLine,
+    startOffset: region.startColumn - 1,
+    endLine: region.endLine || region.startLine,
+    endOffset: (region.endColumn || region.startColumn) - 1,
+  };
+}
+
+// Relative paths resolve against root; sourceOf names the diagnostic source after the run's tool.
+// Results without a readable file location are skipped.
+export function parseSarifReport(report: SarifLog, root: string, sourceOf: (tool: string) => string, reportFile?: string): SonarIssue[] {
+  return listOf(report.runs).flatMap((run) => {
+    const tool = run.tool?.driver?.name || "SARIF";
+    const baseIds: Record<string, string> = {};
+    Object.entries(run.originalUriBaseIds || {}).forEach(([id, base]) => {
+      const basePath = typeof base?.uri === "string" && /^file:/i.test(base.uri) ? resolveReportPath(base.uri, root) : undefined;
+      if (basePath) { baseIds[id] = basePath; }
+    });
+    const locationOf = (location: SarifLocation | undefined) => {
+      const physical = location?.physicalLocation;
+      const artifact = physical?.artifactLocation;
+      if (typeof artifact?.uri !== "string" || !artifact.uri) { return undefined; }
+      const filePath = resolveReportPath(artifact.uri, (artifact.uriBaseId && baseIds[artifact.uriBaseId]) || root);
+      if (!filePath) { return undefined; }
+      return {
+        filePath,
+        textRange: sarifTextRange(physical?.region),
+        line: physical?.region?.startLine || 1,
+        message: location?.message?.text || "",
+      };
+    };
+
+    return listOf(run.results).flatMap((result) => {
+      const primary = locationOf(result.locations?.[0]);
+      if (!primary) { return []; }
+      const properties = result.properties || {};
+      const flows: IssueFlow[] = listOf(result.codeFlows).flatMap((codeFlow) =>
+        listOf(codeFlow.threadFlows).map((threadFlow) =>
+          listOf(threadFlow.locations).flatMap((step) => {
+            const location = locationOf(step.location);
+            return location ? [{ filePath: location.filePath, textRange: location.textRange, message: location.message }] : [];
+          })
+        )
+      );
+      return [new SonarIssue(
+        result.message?.text || "Unknown",
+        result.ruleId || result.rule?.id || tool,
+        properties.severity || sarifLevelSeverities[result.level || "warning"] || "MAJOR",
+        primary.filePath,
+        primary.line,
+        {
+          textRange: primary.textRange,
+          flows: flows.filter((flow) => flow.length > 0),
+          type: properties.type,
+          impacts: properties.impacts,
+          cleanCodeAttribute: properties.cleanCodeAttribute,
+          source: sourceOf(tool),
+          reportFile,
+        }
+      )];
+    });
+  });
+}
+
+// Sonar's generic issue import format, with severities (before 10.3) or rules carrying impacts (10.3+).
+// Issues without a primary file are skipped.
+export function parseGenericIssueReport(report: GenericIssueReport, reportFile: string): SonarIssue[] {
+  const root = reportRoot(reportFile);
+  const rules: Map<string | undefined, GenericRule> = new Map(listOf(report.rules).map((rule) => [rule.id, rule]));
+  const impactSeverities: Record<string, string> = { HIGH: "CRITICAL", MEDIUM: "MAJOR", LOW: "MINOR" };
+  // Generic columns are 0-based like Sonar offsets, a range without columns covers whole lines
+  const textRangeOf = (range: GenericTextRange | undefined): IssueTextRange | undefined =>
+    range?.startLine && range.startColumn !== undefined
+      ? {
+        startLine: range.startLine,
+        startOffset: range.startColumn,
+        endLine: range.endLine || range.startLine,
+        endOffset: range.endColumn ?? range.startColumn,
+      }
+      : undefined;
+  const locationOf = (location: GenericLocation & { filePath: string }): IssueLocation => ({
+    filePath: path.isAbsolute(location.filePath) ? location.filePath : path.join(root, location.filePath),
+    textRange: textRangeOf(location.textRange),
+    message: location.message || "",
+  });
+  const hasFile = (location: GenericLocation | undefined): location is GenericLocation & { filePath: string } =>
+    typeof location?.filePath === "string" && location.filePath.length > 0;
+
+  return listOf(report.issues).flatMap((issue) => {
+    if (!hasFile(issue.primaryLocation)) { return []; }
+    const rule = rules.get(issue.ruleId);
+    const impacts = listOf(rule?.impacts);
+    const highestImpact = impacts
+      .map((impact) => impact.severity)
+      .sort((a, b) => severityOrder.indexOf(a) - severityOrder.indexOf(b))[0];
+    const primary = locationOf(issue.primaryLocation);
+    const secondary = listOf(issue.secondaryLocations).filter(hasFile).map(locationOf);
+    const tool = rule?.engineId || issue.engineId || "Generic";
+    return [new SonarIssue(
+      primary.message || rule?.name || "Unknown",
+      issue.ruleId || "Unknown",
+      issue.severity || rule?.severity || impactSeverities[highestImpact] || "MAJOR",
+      primary.filePath,
+      issue.primaryLocation.textRange?.startLine || 1,
+      {
+        textRange: primary.textRange,
+        flows: secondary.length > 0 ? [secondary] : [],
+        type: issue.type || rule?.type,
+        impacts,
+        cleanCodeAttribute: rule?.cleanCodeAttribute,
+        source: `${tool} (imported)`,
+        reportFile,
+      }
+    )];
+  });
+}
+
+export function readImportedReport(reportFile: string): SonarIssue[] {
+  const mtime = fs.statSync(reportFile).mtimeMs;
+  const cached = importedReports.get(reportFile);
+  if (cached?.mtime === mtime) {
+    return cached.issues;
+  }
+
+  const report = JSON.parse(fs.readFileSync(reportFile, "utf8"));
+  let issues: SonarIssue[];
+  if (Array.isArray(report.runs)) {
+    issues = parseSarifReport(report, reportRoot(reportFile), (tool) => `${tool} (imported)`, reportFile);
+  } else if (Array.isArray(report.issues)) {
+    issues = parseGenericIssueReport(report, reportFile);
+  } else {
+    throw new Error("not a SARIF or Sonar generic issue report");
+  }
+  importedReports.set(reportFile, { mtime, issues });
+  return issues;
+}
+
+export type ExportFormat = "sarif" | "csv" | "markdown" | "html";
+
+export const exportFormats: { label: string; format: ExportFormat; extension: string; filterName: string }[] = [
+  { label: "SARIF 2.1.0", format: "sarif", extension: "sarif", filterName: "SARIF" },
+  { label: "CSV", format: "csv", extension: "csv", filterName: "CSV" },
+  { label: "Markdown", format: "markdown", extension: "md", filterName: "Markdown" },
+  { label: "HTML", format: "html", extension: "html", filterName: "HTML" },
+];
+
+function exportPath(issue: SonarIssue): string {
+  return vscode.workspace.asRelativePath(issue.filePath, false).split(path.sep).join("/");
+}
+
+interface ExportRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+// 1-based columns, like editors and SARIF count them
+function toExportRange(range: vscode.Range): ExportRange {
+  return {
+    startLine: range.start.line + 1,
+    startColumn: range.start.character + 1,
+    endLine: range.end.line + 1,
+    endColumn: range.end.character + 1,
+  };
+}
+
+function exportRange(issue: SonarIssue): ExportRange {
+  return toExportRange(toRange(issue.currentTextRange, issue.currentLine));
+}
+
+function exportSeverity(issue: SonarIssue): string {
+  return isImpactsSupported() && issue.impacts.length > 0 ? describeImpacts(issue) : issue.severity;
+}
+
+// One base id per workspace folder, %SRCROOT% for the first like most tools write it
+function sarifBaseId(folder: vscode.WorkspaceFolder): string {
+  return folder.index === 0 ? "%SRCROOT%" : `%SRCROOT${folder.index}%`;
+}
+
+// Relative to the base id of the file's workspace folder, an absolute file URI outside of them
+function sarifArtifact(filePath: string): { uri: string; uriBaseId?: string } {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+  if (!folder) {
+    return { uri: vscode.Uri.file(filePath).toString() };
+  }
+  const relative = path.relative(folder.uri.fsPath, filePath).split(path.sep).map(encodeURIComponent).join("/");
+  return { uri: relative, uriBaseId: sarifBaseId(folder) };
+}
+
+export function toSarif(issues: SonarIssue[]): string {
+  const levels: Record<number, string> = {
+    [vscode.DiagnosticSeverity.Error]: "error",
+    [vscode.DiagnosticSeverity.Warning]: "warning",
+  };
+  const sarifLocation = (filePath: string, range: ExportRange, message?: string) => ({
+    physicalLocation: {
+      artifactLocation: sarifArtifact(filePath),
+      region: range,
+    },
+    ...(message ? { message: { text: message } } : {}),
+  });
+  // SARIF requires base URIs to end with a slash
+  const baseIds = Object.fromEntries((vscode.workspace.workspaceFolders || []).map((folder) => [
+    sarifBaseId(folder),
+    { uri: folder.uri.toString().replace(/\/?$/, "/") },
+  ]));
+
+  // One run per tool, as SARIF expects results to be reported by the tool that found them
+  const runs = Array.from(groupBy(issues, (issue) => issue.source).entries()).map(([source, sourceIssues]) => ({
+    tool: {
+      driver: {
+        name: source,
+        informationUri: source === "ESLint" ? "https://eslint.org" : "https://www.sonarsource.com/products/sonarqube/",
+        rules: Array.from(new Set(sourceIssues.map((issue) => issue.rule))).sort().map((rule) => ({ id: rule })),
+      },
+    },
+    originalUriBaseIds: baseIds,
+    results: sourceIssues.map((issue) => ({
+      ruleId: issue.rule,
+      level: levels[mapSeverity(displaySeverity(issue)).vscodeSeverity] || "note",
+      message: { text: issue.message },
+      locations: [sarifLocation(issue.filePath, exportRange(issue))],
+      ...(issue.key ? { partialFingerprints: { sonarIssueKey: issue.key } } : {}),
+      ...(issue.flows.length > 0
+        ? {
+          codeFlows: issue.flows.map((flow) => ({
+            threadFlows: [{
+              locations: flow.map((location) => ({
+                location: sarifLocation(
+                  location.filePath,
+                  toExportRange(toRange(location.textRange, location.textRange?.startLine || 1)),
+                  location.message
+                ),
+              })),
+            }],
+          })),
+        }
+        : {}),
+      properties: {
+        severity: issue.severity,
+        type: issue.type,
+        status: issue.status,
+        impacts: issue.impacts.length > 0 ? issue.impacts : undefined,
+        cleanCodeAttribute: issue.cleanCodeAttribute,
+      },
+    })),
+  }));
+
+  return JSON.stringify({
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs,
+  }, null, 2);
+}
+
+export function toCsv(issues: SonarIssue[]): string {
+  const cell = (value: string | number | undefined) => {
+    const text = value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const header = ["Source", "Rule", "Severity", "Type", "Status", "File", "Start Line", "Start Column", "End Line", "End Column", "Message", "Key"];
+  const rows = issues.map((issue) => {
+    const range = exportRange(issue);
+    return [
+      issue.source, issue.rule, exportSeverity(issue), issue.type ? issueTypeLabels[issue.type] : undefined, issue.status,
+      exportPath(issue), range.startLine, range.startColumn, range.endLine, range.endColumn, issue.message, issue.key,
+    ];
+  });
+  return [header, ...rows].map((row) => row.map(cell).join(",")).join("\r\n") + "\r\n";
+}
+
+export function toMarkdown(issues: SonarIssue[]): string {
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  const lines = [
+    "# Sonar Issues",
+    "",
+    `${issues.length} issues, exported ${new Date().toLocaleString()}.`,
+    "",
+    "| Severity | Source | Rule | Location | Message |",
+    "|----------|--------|------|----------|---------|",
+    ...issues.map((issue) => {
+      const range = exportRange(issue);
+      return `| ${cell(exportSeverity(issue))} | ${cell(issue.source)} | \`${cell(issue.rule)}\` | \`${cell(exportPath(issue))}:${range.startLine}:${range.startColumn}\` | ${cell(issue.message)} |`;
+    }),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+export function toHtml(issues: SonarIssue[]): string {
+  const rows = issues.map((issue) => {
+    const range = exportRange(issue);
+    return `<tr class="${escapeHtml(displaySeverity(issue).toLowerCase())}">
+      <td>${escapeHtml(exportSeverity(issue))}</td>
+      <td>${escapeHtml(issue.source)}</td>
+      <td><code>${escapeHtml(issue.rule)}</code></td>
+      <td><code>${escapeHtml(exportPath(issue))}:${range.startLine}:${range.startColumn}</code></td>
+      <td>${escapeHtml(issue.message)}</td>
+    </tr>`;
+  });
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Sonar Issues</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2em; color: #222; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; vertical-align: top; }
+    th { background: #f4f4f4; }
+    tr.blocker td:first-child, tr.critical td:first-child, tr.high td:first-child { color: #c00; font-weight: bold; }
+    tr.major td:first-child, tr.medium td:first-child { color: #b60; }
+  </style>
+</head>
+<body>
+  <h1>Sonar Issues</h1>
+  <p>${issues.length} issues, exported ${escapeHtml(new Date().toLocaleString())}.</p>
+  <table>
+    <thead><tr><th>Severity</th><th>Source</th><th>Rule</th><th>Location</th><th>Message</th></tr></thead>
+    <tbody>
+    ${rows.join("\n    ")}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,73 @@
+import * as vscode from "vscode";
+import type { Rule } from "eslint";
+import { SonarIssue } from "./issueModel";
+import { SonarConnection, sonarGet } from "./sonarClient";
+import { trackedFolders } from "./issueTracking";
+import { getSonarConfigFor } from "./config";
+import { SonarRule, renderEslintRule, renderExternalRule, renderSonarRule, renderWebviewHtml } from "./webviews";
+
+// The Rule Description panel: SonarQube rules fetched from the server and cached per server,
+// ESLint rules from the metadata of the last lint run, other analyzers' rules by name only.
+
+// Rule metadata reported by the last ESLint run, used for rule descriptions of local issues
+export const eslintRulesMeta: Map<string, Rule.RuleMetaData> = new Map();
+
+// Rule bodies rarely change, so they are cached per server for the session
+const sonarRuleCache: Map<string, Map<string, SonarRule>> = new Map();
+let rulePanel: vscode.WebviewPanel | undefined;
+
+export async function fetchSonarRule(connection: SonarConnection, ruleKey: string): Promise<SonarRule> {
+  const { server } = connection;
+  let serverCache = sonarRuleCache.get(server);
+  if (!serverCache) {
+    serverCache = new Map();
+    sonarRuleCache.set(server, serverCache);
+  }
+  const cached = serverCache.get(ruleKey);
+  if (cached) { return cached; }
+
+  // SonarCloud only finds rules within an organization
+  const organization = connection.organization ? `&organization=${encodeURIComponent(connection.organization)}` : "";
+  const res = await sonarGet(connection, `/api/rules/show?key=${encodeURIComponent(ruleKey)}${organization}`);
+  const data = await res.json();
+  serverCache.set(ruleKey, data.rule);
+  return data.rule;
+}
+
+function showRulePanel(title: string, content: string) {
+  if (!rulePanel) {
+    rulePanel = vscode.window.createWebviewPanel("sonarRuleDescription", title, vscode.ViewColumn.Beside, {});
+    rulePanel.onDidDispose(() => { rulePanel = undefined; });
+  } else {
+    rulePanel.title = title;
+    rulePanel.reveal(vscode.ViewColumn.Beside, true);
+  }
+  rulePanel.webview.html = renderWebviewHtml(rulePanel.webview, content);
+}
+
+export async function showRuleDescription(target: SonarIssue | string, source?: string, resource?: vscode.Uri) {
+  const rule = typeof target === "string" ? target : target.rule;
+  const ruleSource = typeof target === "string" ? source || "ESLint" : target.key ? "SonarQube" : target.source;
+
+  if (ruleSource === "ESLint") {
+    showRulePanel(rule, renderEslintRule(rule, eslintRulesMeta.get(rule)));
+    return;
+  }
+  if (ruleSource !== "SonarQube") {
+    showRulePanel(rule, renderExternalRule(rule, ruleSource));
+    return;
+  }
+
+  const filePath = typeof target === "string" ? resource?.fsPath : target.filePath;
+  const config = filePath ? await getSonarConfigFor(filePath) : undefined;
+  if (!config) { return; }
+  const sonarRule = await fetchSonarRule(config, rule);
+  showRulePanel(sonarRule.name, renderSonarRule(sonarRule));
+}
+
+// Rule names come from the rules shown before only, a hover must neither prompt nor wait for the server
+export function cachedRuleName(issue: SonarIssue): string {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(issue.filePath));
+  const config = folder ? trackedFolders.get(folder.uri.toString())?.config : undefined;
+  return (issue.key && config ? sonarRuleCache.get(config.server)?.get(issue.rule)?.name : undefined) || issue.rule;
+}
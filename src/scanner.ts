@@ -0,0 +1,176 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as cp from "child_process";
+import { SonarConfig, sleep, sonarGet } from "./sonarClient";
+
+// Runs a SonarScanner analysis for Run Analysis: the scanner runs as a task with its output in a terminal,
+// then the compute engine task it submitted (see report-task.txt) is polled until SonarQube has processed it.
+
+export type ScannerKind = "sonar-scanner" | "npx" | "maven" | "gradle";
+
+export interface ScannerRun {
+  exitCode: number;
+  log: string;
+}
+
+// Where each scanner writes report-task.txt, relative to the folder it runs in
+const reportTaskFiles = [".scannerwork/report-task.txt", "target/sonar/report-task.txt", "build/sonar/report-task.txt"];
+
+// The scanner command runs in a shell (Windows runs mvn, gradle and npx as .cmd scripts), so every
+// argument is quoted for the shell of the platform: sh takes it literally in single quotes, cmd.exe in double quotes
+export function quoteShellArg(value: string, platform: NodeJS.Platform = process.platform): string {
+  if (/^[\w.:/@=,+-]+$/.test(value)) { return value; }
+  if (platform === "win32") {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+export function scannerCommand(folder: vscode.WorkspaceFolder, config: SonarConfig): string {
+  const settings = vscode.workspace.getConfiguration("sonarExtension", folder.uri);
+  let command = settings.get<string>("scannerCommand", "");
+  if (!command) {
+    const kind = settings.get<ScannerKind>("scanner", "sonar-scanner");
+    const gradle = fs.existsSync(path.join(folder.uri.fsPath, process.platform === "win32" ? "gradlew.bat" : "gradlew"))
+      ? (process.platform === "win32" ? "gradlew.bat" : "./gradlew")
+      : "gradle";
+    command = { "sonar-scanner": "sonar-scanner", npx: "npx --yes @sonar/scan", maven: "mvn sonar:sonar", gradle: `${gradle} sonar` }[kind];
+  }
+  // Server and token are passed in the environment, so the token does not show up in the terminal
+  const properties = [`-Dsonar.projectKey=${config.projectKey}`];
+  if (config.organization) {
+    properties.push(`-Dsonar.organization=${config.organization}`);
+  }
+  const extraArgs = settings.get<string[]>("scannerArgs", []);
+  return [command, ...[...properties, ...extraArgs].map((arg) => quoteShellArg(arg))].join(" ");
+}
+
+// Killing the shell alone would leave the scanner's JVM or a linter running, so the whole process tree goes
+export function killProcessTree(child: cp.ChildProcess) {
+  if (child.pid === undefined || child.exitCode !== null) { return; }
+  if (process.platform === "win32") {
+    cp.spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"], { stdio: "ignore" }).on("error", () => child.kill());
+    return;
+  }
+  try {
+    // The shell was started as the leader of its own process group
+    process.kill(-child.pid, "SIGTERM");
+  } catch {
+    child.kill();
+  }
+}
+
+// Runs the scanner as a task so its output streams into a terminal, and keeps the output for error reports
+export function runScannerTask(
+  folder: vscode.WorkspaceFolder,
+  command: string,
+  env: Record<string, string>,
+  token: vscode.CancellationToken,
+  scannerLog: vscode.OutputChannel
+): Promise<ScannerRun> {
+  return new Promise((resolve) => {
+    const writeEmitter = new vscode.EventEmitter<string>();
+    const closeEmitter = new vscode.EventEmitter<number>();
+    let child: cp.ChildProcess | undefined;
+    let log = "";
+    let finished = false;
+
+    const finish = (exitCode: number) => {
+      if (finished) { return; }
+      finished = true;
+      cancellation.dispose();
+      closeEmitter.fire(exitCode);
+      resolve({ exitCode, log });
+    };
+    const output = (text: string) => {
+      log += text;
+      scannerLog.append(text);
+      writeEmitter.fire(text.replace(/\r?\n/g, "\r\n"));
+    };
+    const stop = () => {
+      if (child) { killProcessTree(child); }
+    };
+
+    const pty: vscode.Pseudoterminal = {
+      onDidWrite: writeEmitter.event,
+      onDidClose: closeEmitter.event,
+      open: () => {
+        writeEmitter.fire(`> ${command}\r\n\r\n`);
+        child = cp.spawn(command, {
+          cwd: folder.uri.fsPath,
+          env: { ...process.env, ...env },
+          shell: true,
+          detached: process.platform !== "win32",
+        });
+        child.stdout?.on("data", (data: Buffer) => output(data.toString()));
+        child.stderr?.on("data", (data: Buffer) => output(data.toString()));
+        child.on("error", (error) => {
+          output(`${error.message}\n`);
+          finish(1);
+        });
+        child.on("close", (code) => finish(code ?? 1));
+      },
+      // Closing the terminal stops the analysis
+      close: stop,
+    };
+    const cancellation = token.onCancellationRequested(stop);
+
+    const task = new vscode.Task(
+      { type: "sonarScanner" },
+      folder,
+      "Run Analysis",
+      "Sonar",
+      new vscode.CustomExecution(async () => pty)
+    );
+    vscode.tasks.executeTask(task).then(undefined, (error) => {
+      output(`${error instanceof Error ? error.message : String(error)}\n`);
+      finish(1);
+    });
+  });
+}
+
+// report-task.txt is a properties file with ceTaskId, ceTaskUrl, dashboardUrl...; only one written by this run counts
+export function readReportTask(folderPath: string, startedAt: number): Record<string, string> | undefined {
+  const file = reportTaskFiles
+    .map((relative) => path.join(folderPath, relative))
+    .filter((candidate) => fs.existsSync(candidate) && fs.statSync(candidate).mtimeMs >= startedAt)
+    .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs)[0];
+  if (!file) { return undefined; }
+
+  const properties: Record<string, string> = {};
+  fs.readFileSync(file, "utf8").split(/\r?\n/).forEach((line) => {
+    const separator = line.indexOf("=");
+    if (separator > 0 && !line.startsWith("#")) {
+      properties[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  });
+  return properties;
+}
+
+// Polls the compute engine until it has processed the report; resolves on success and once the token
+// is cancelled, throws when the task failed
+export async function waitForCeTask(
+  config: SonarConfig,
+  taskId: string,
+  token: vscode.CancellationToken,
+  pollInterval: number = 2000
+): Promise<void> {
+  const deadline = Date.now() + 30 * 60 * 1000;
+  try {
+    while (!token.isCancellationRequested) {
+      const res = await sonarGet(config, `/api/ce/task?id=${encodeURIComponent(taskId)}`, token);
+      const { task } = await res.json();
+      if (task.status === "SUCCESS") { return; }
+      if (task.status === "FAILED" || task.status === "CANCELED") {
+        throw new Error(task.errorMessage || `The background task was ${task.status.toLowerCase()}`);
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`SonarQube did not process the analysis within 30 minutes (task ${taskId})`);
+      }
+      await sleep(pollInterval, token);
+    }
+  } catch (error) {
+    if (!(error instanceof vscode.CancellationError)) { throw error; }
+  }
+}
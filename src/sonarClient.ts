@@ -0,0 +1,299 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as http from "http";
+import * as https from "https";
+import * as tls from "tls";
+import fetch, { FetchError, Response } from "node-fetch";
+import { HttpProxyAgent } from "http-proxy-agent";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import { IssueImpact, IssueTextRange } from "./issueModel";
+
+// HTTP client of the SonarQube Web API. Every request goes through sonarFetch, which applies
+// the authentication, proxy, TLS, timeout and retry settings of the sonarExtension configuration.
+
+export interface SonarConfig {
+  server: string;
+  token: string;
+  projectKey: string;
+  organization?: string;
+  // Resolved per refresh from the git branch of the folder, see resolveBranchTarget
+  branch?: string;
+  pullRequest?: string;
+}
+
+// What a request needs to reach the server: its URL, the token and the SonarCloud organization, without project or branch
+export interface SonarConnection {
+  server: string;
+  token: string;
+  organization?: string;
+}
+
+// Non-OK answer or unreachable server, with a message that says what to do about it
+export class SonarApiError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "SonarApiError";
+  }
+}
+
+interface HttpSettings {
+  authentication: "basic" | "bearer";
+  proxy: string;
+  strictSSL: boolean;
+  caCertificates: string[];
+  // Seconds
+  timeout: number;
+  retries: number;
+}
+
+function readHttpSettings(): HttpSettings {
+  const settings = vscode.workspace.getConfiguration("sonarExtension");
+  return {
+    authentication: settings.get<"basic" | "bearer">("authentication", "basic"),
+    proxy: settings.get<string>("proxy") || vscode.workspace.getConfiguration("http").get<string>("proxy") || "",
+    strictSSL: settings.get<boolean>("strictSSL", true),
+    caCertificates: settings.get<string[]>("caCertificates", []),
+    timeout: settings.get<number>("requestTimeout", 30),
+    retries: settings.get<number>("requestRetries", 2),
+  };
+}
+
+function authHeaders(token: string, authentication: HttpSettings["authentication"]) {
+  if (authentication === "bearer") {
+    return { Authorization: `Bearer ${token}` };
+  }
+  // A token is sent as login with an empty password, "login:password" as is
+  return { Authorization: "Basic " + Buffer.from(token.includes(":") ? token : `${token}:`).toString("base64") };
+}
+
+// Agents are reused until the settings they were made from change
+let httpAgents: { key: string; http: http.Agent; https: https.Agent; httpProxy?: http.Agent; httpsProxy?: http.Agent } | undefined;
+
+function bypassesProxy(url: URL): boolean {
+  const hosts = (process.env.NO_PROXY || process.env.no_proxy || "").split(",").map((host) => host.trim().replace(/^\*?\./, "")).filter(Boolean);
+  return hosts.some((host) => host === "*" || url.hostname === host || url.hostname.endsWith(`.${host}`));
+}
+
+function agentFor(url: URL, settings: HttpSettings): http.Agent {
+  const proxy = settings.proxy || process.env.HTTPS_PROXY || process.env.https_proxy || process.env.HTTP_PROXY || process.env.http_proxy;
+  const key = JSON.stringify([proxy, settings.strictSSL, settings.caCertificates]);
+  if (httpAgents?.key !== key) {
+    // Extra CAs complement the bundled ones, e.g. for a company CA or a self-signed server certificate
+    const ca = settings.caCertificates.length > 0
+      ? [...tls.rootCertificates, ...settings.caCertificates.map((file) => fs.readFileSync(file, "utf8"))]
+      : undefined;
+    const tlsOptions = { keepAlive: true, ca, rejectUnauthorized: settings.strictSSL };
+    httpAgents = {
+      key,
+      http: new http.Agent({ keepAlive: true }),
+      https: new https.Agent(tlsOptions),
+      httpProxy: proxy ? new HttpProxyAgent(proxy, { keepAlive: true }) : undefined,
+      httpsProxy: proxy ? new HttpsProxyAgent(proxy, tlsOptions) : undefined,
+    };
+  }
+  const direct = !proxy || bypassesProxy(url);
+  if (url.protocol === "https:") {
+    return (!direct && httpAgents.httpsProxy) || httpAgents.https;
+  }
+  return (!direct && httpAgents.httpProxy) || httpAgents.http;
+}
+
+// Worth another try: the server is restarting, overloaded or rate limiting
+const retryStatuses = [429, 502, 503, 504];
+
+function describeFetchError(error: unknown, connection: SonarConnection, settings: HttpSettings): string {
+  if (error instanceof FetchError && error.type === "request-timeout") {
+    return `${connection.server} did not answer within ${settings.timeout} seconds (sonarExtension.requestTimeout)`;
+  }
+  const code = (error as { code?: string }).code || "";
+  const message = error instanceof Error ? error.message : String(error);
+  if (/CERT|SELF_SIGNED|UNABLE_TO_VERIFY|UNABLE_TO_GET_ISSUER/.test(code)) {
+    return `The certificate of ${connection.server} is not trusted (${code}). Add its CA certificate to sonarExtension.caCertificates.`;
+  }
+  if (code === "ENOTFOUND" || code === "ECONNREFUSED" || code === "ECONNRESET" || code === "EHOSTUNREACH") {
+    return `Could not reach ${connection.server} (${code}). Check the server URL and the proxy settings (sonarExtension.proxy).`;
+  }
+  return `Request to ${connection.server} failed: ${message}`;
+}
+
+// Retries GET requests that failed on the network or with a temporary status; the caller checks res.ok
+export async function sonarFetch(
+  connection: SonarConnection,
+  apiPath: string,
+  init: { method?: "GET" | "POST"; body?: URLSearchParams; token?: vscode.CancellationToken } = {}
+): Promise<Response> {
+  const settings = readHttpSettings();
+  const retries = init.method === "POST" ? 0 : settings.retries;
+  for (let attempt = 0; ; attempt++) {
+    if (init.token?.isCancellationRequested) { throw new vscode.CancellationError(); }
+    let res: Response | undefined;
+    let failure: unknown;
+    try {
+      res = await fetch(`${connection.server}${apiPath}`, {
+        method: init.method || "GET",
+        headers: authHeaders(connection.token, settings.authentication),
+        body: init.body,
+        timeout: settings.timeout * 1000,
+        agent: (url) => agentFor(url, settings),
+      });
+    } catch (error) {
+      failure = error;
+    }
+    if (attempt >= retries || (res && !retryStatuses.includes(res.status))) {
+      if (res) { return res; }
+      throw new SonarApiError(describeFetchError(failure, connection, settings));
+    }
+    // Exponential backoff: 1s, 2s, 4s... unless the server says how long to wait
+    const retryAfter = parseInt(res?.headers.get("Retry-After") || "", 10);
+    const delay = isNaN(retryAfter) ? 1000 * 2 ** attempt : retryAfter * 1000;
+    await sleep(Math.min(delay, 30000), init.token);
+  }
+}
+
+// Waits ms milliseconds, or rejects with a CancellationError as soon as the token is cancelled
+export function sleep(ms: number, token?: vscode.CancellationToken): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (token?.isCancellationRequested) {
+      reject(new vscode.CancellationError());
+      return;
+    }
+    const cancellation = token?.onCancellationRequested(() => {
+      clearTimeout(timer);
+      cancellation?.dispose();
+      reject(new vscode.CancellationError());
+    });
+    const timer = setTimeout(() => {
+      cancellation?.dispose();
+      resolve();
+    }, ms);
+  });
+}
+
+export async function sonarApiError(res: Response, connection: SonarConnection, apiPath: string): Promise<SonarApiError> {
+  let details = "";
+  try {
+    const data = await res.json();
+    details = (data.errors || []).map((e: { msg: string }) => e.msg).join(", ");
+  } catch {
+    // body is not JSON, the status says enough
+  }
+  const endpoint = apiPath.split("?")[0];
+  const suffix = details ? ` (${details})` : "";
+  let message: string;
+  if (res.status === 401) {
+    message = `${connection.server} rejected the token (401 Unauthorized). It may have expired or been revoked: generate a new one and run "Configure Connection"${suffix}.`;
+  } else if (res.status === 403) {
+    message = `The token's user is not allowed to use ${endpoint} (403 Forbidden). Ask a project administrator for the missing permission${suffix}.`;
+  } else if (res.status === 404) {
+    const organizationHint = /sonarcloud\.io/.test(connection.server) && !connection.organization ? ", the organization" : "";
+    message = `${endpoint} was not found on ${connection.server} (404). Check the server URL${organizationHint} and the project key${suffix}.`;
+  } else if (res.status >= 500) {
+    message = `${connection.server} failed with ${res.status} ${res.statusText}. The server may be restarting, try again later${suffix}.`;
+  } else {
+    message = details || `SonarQube answered ${res.status} ${res.statusText} for ${endpoint}`;
+  }
+  return new SonarApiError(message, res.status);
+}
+
+// For requests that must succeed
+export async function sonarGet(connection: SonarConnection, apiPath: string, token?: vscode.CancellationToken): Promise<Response> {
+  const res = await sonarFetch(connection, apiPath, { token });
+  if (!res.ok) { throw await sonarApiError(res, connection, apiPath); }
+  return res;
+}
+
+// Form POST of the triage and review actions, never retried
+export async function sonarPost(connection: SonarConnection, apiPath: string, params: Record<string, string>): Promise<Response> {
+  const res = await sonarFetch(connection, apiPath, { method: "POST", body: new URLSearchParams(params) });
+  if (!res.ok) { throw await sonarApiError(res, connection, apiPath); }
+  return res;
+}
+
+// An issue as /api/issues/search returns it, only the fields the extension reads
+export interface SonarApiIssue {
+  key: string;
+  component: string;
+  rule?: string;
+  message?: string;
+  severity?: string;
+  line?: number;
+  textRange?: IssueTextRange;
+  flows?: { locations?: { component: string; textRange?: IssueTextRange; msg?: string }[] }[];
+  status?: string;
+  assignee?: string;
+  transitions?: string[];
+  type?: string;
+  creationDate?: string;
+  updateDate?: string;
+  impacts?: IssueImpact[];
+  cleanCodeAttribute?: string;
+  cleanCodeAttributeCategory?: string;
+  effort?: string;
+  // Before SonarQube 8.2
+  debt?: string;
+  author?: string;
+  tags?: string[];
+}
+
+export function branchParams(config: SonarConfig): string {
+  if (config.pullRequest) {
+    return `&pullRequest=${encodeURIComponent(config.pullRequest)}`;
+  }
+  return config.branch ? `&branch=${encodeURIComponent(config.branch)}` : "";
+}
+
+// Local path of a component key like "project:src/app.ts"
+export function componentToPath(component: string, projectKey: string, workspaceRoot: string): string {
+  return path.join(workspaceRoot, component.replace(`${projectKey}:`, "").replace(/^\/+/, ""));
+}
+
+export async function fetchAnalysisDate(config: SonarConfig): Promise<string | undefined> {
+  const res = await sonarFetch(config, `/api/components/show?component=${encodeURIComponent(config.projectKey)}${branchParams(config)}`);
+  if (!res.ok) { return undefined; }
+  const data = await res.json();
+  return data.component?.analysisDate;
+}
+
+// Impact severities a filter can select, BLOCKER and INFO need SonarQube 10.8+
+export const impactSeverityChoices = ["BLOCKER", "HIGH", "MEDIUM", "LOW", "INFO"];
+
+// Per server URL, only successful lookups are kept so an offline start is retried later
+const serverVersions: Map<string, string> = new Map();
+
+export async function fetchServerVersion(config: SonarConfig): Promise<string | undefined> {
+  const { server, token } = config;
+  if (serverVersions.has(server)) {
+    return serverVersions.get(server);
+  }
+  try {
+    const res = await sonarFetch({ server, token }, "/api/server/version");
+    if (!res.ok) { return undefined; }
+    const version = (await res.text()).trim();
+    serverVersions.set(server, version);
+    return version;
+  } catch (error) {
+    console.error("Failed to fetch the SonarQube version:", error);
+    return undefined;
+  }
+}
+
+export function isServerVersionAtLeast(version: string | undefined, major: number, minor: number): boolean {
+  const [actualMajor, actualMinor] = (version || "").split(".").map((part) => parseInt(part, 10));
+  if (isNaN(actualMajor)) { return false; }
+  return actualMajor > major || (actualMajor === major && (actualMinor || 0) >= minor);
+}
+
+export const newCodeParams = { current: "&inNewCodePeriod=true", legacy: "&sinceLeakPeriod=true" };
+
+// Issue and hotspot searches select new code with inNewCodePeriod on SonarCloud and SonarQube 9.4+, with sinceLeakPeriod before.
+// An unknown version gets the current parameter; the searches retry with the legacy one when the server answers 400.
+export function newCodeParam(config: { server: string; organization?: string }, version: string | undefined): string {
+  const legacy = version !== undefined && !config.organization && !/sonarcloud\.io/.test(config.server) && !isServerVersionAtLeast(version, 9, 4);
+  return legacy ? newCodeParams.legacy : newCodeParams.current;
+}
+
+// SonarCloud (the only server with organizations) and SonarQube 10.2+ report impacts and clean code attributes
+export function supportsImpacts(config: { server: string; organization?: string }, version: string | undefined): boolean {
+  return !!config.organization || /sonarcloud\.io/.test(config.server) || isServerVersionAtLeast(version, 10, 2);
+}
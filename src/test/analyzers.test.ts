@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseRegexOutput } from '../analyzers';
+
+const cwd = path.resolve('/project');
+// The tsc problem matcher of the README's sonarExtension.analyzers example
+const tscPattern = /^(?<file>.*)\((?<line>\d+),(?<column>\d+)\): (?<severity>error|warning) (?<code>TS\d+): (?<message>.*)$/;
+const severityPattern = /^(?<file>[^:]+):(?<line>\d+): (?<severity>\w+): (?<message>.*)$/;
+
+suite('Analyzers', () => {
+	test('reads the named groups of each matching line', () => {
+		const [issue] = parseRegexOutput("src/app.ts(12,5): error TS2304: Cannot find name 'foo'.", tscPattern, cwd, 'tsc');
+		assert.strictEqual(issue.filePath, path.join(cwd, 'src', 'app.ts'));
+		assert.strictEqual(issue.line, 12);
+		assert.strictEqual(issue.message, "Cannot find name 'foo'.");
+		assert.strictEqual(issue.rule, 'TS2304');
+		assert.strictEqual(issue.severity, 'CRITICAL');
+		assert.strictEqual(issue.source, 'tsc');
+		// Columns are 1-based in the output, without an end column the range covers one character
+		assert.deepStrictEqual(issue.textRange, { startLine: 12, startOffset: 4, endLine: 12, endOffset: 5 });
+	});
+
+	test('reads end lines and columns', () => {
+		const ranged = /^(?<file>\S+) (?<line>\d+):(?<column>\d+)-(?<endLine>\d+):(?<endColumn>\d+) (?<message>.*)$/;
+		const [issue] = parseRegexOutput('lib/util.py 3:1-4:10 Too complex', ranged, cwd, 'lint');
+		assert.deepStrictEqual(issue.textRange, { startLine: 3, startOffset: 0, endLine: 4, endOffset: 9 });
+	});
+
+	test('falls back when optional groups are missing', () => {
+		const [issue] = parseRegexOutput('src/app.ts:7: unused variable ', /^(?<file>[^:]+):(?<line>\d+): (?<message>.*)$/, cwd, 'lint');
+		assert.strictEqual(issue.line, 7);
+		assert.strictEqual(issue.message, 'unused variable');
+		assert.strictEqual(issue.textRange, undefined);
+		assert.strictEqual(issue.rule, 'lint');
+		assert.strictEqual(issue.severity, 'MAJOR');
+
+		// Without a message group the whole line is the message
+		const [bare] = parseRegexOutput('  src/app.ts(3)  ', /(?<file>[\w/.]+)\((?<line>\d+)\)/, cwd, 'lint');
+		assert.strictEqual(bare.message, 'src/app.ts(3)');
+	});
+
+	test('maps the severity words of linters', () => {
+		const severities = ['fatal', 'Warning', 'warn', 'info', 'note', 'hint', 'blocker', 'odd'].map((severity) =>
+			parseRegexOutput(`a.ts:1: ${severity}: message`, severityPattern, cwd, 'lint')[0].severity
+		);
+		assert.deepStrictEqual(severities, ['BLOCKER', 'MAJOR', 'MAJOR', 'MINOR', 'MINOR', 'INFO', 'BLOCKER', 'MAJOR']);
+	});
+
+	test('skips lines that do not match', () => {
+		const output = ['Linting 2 files...', 'src/app.ts:2: error: broken', '', 'src/app.ts:x: error: no line', 'Done.'].join('\r\n');
+		const issues = parseRegexOutput(output, severityPattern, cwd, 'lint');
+		assert.deepStrictEqual(issues.map((issue) => `${issue.line} ${issue.message}`), ['2 broken']);
+	});
+
+	test('keeps absolute paths', () => {
+		const file = path.join(cwd, 'other', 'app.ts');
+		const [issue] = parseRegexOutput(`${file}(9,1): warning TS6133: unused`, tscPattern, path.join(cwd, 'packages', 'web'), 'tsc');
+		assert.strictEqual(issue.filePath, file);
+		assert.strictEqual(issue.severity, 'MAJOR');
+	});
+});
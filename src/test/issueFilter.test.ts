@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { IssueFilter, defaultIssueFilter, issueFilterParams } from '../issueFilter';
+import { SonarConfig } from '../sonarClient';
+
+const config: SonarConfig = { server: 'https://sonar.example.com', token: 'token', projectKey: 'demo' };
+
+function filterOf(changes: Partial<IssueFilter>): IssueFilter {
+	return { ...defaultIssueFilter, ...changes };
+}
+
+suite('Issue Filter', () => {
+	test('searches by severity before SonarQube 10.2', () => {
+		assert.strictEqual(
+			issueFilterParams(filterOf({ severities: ['BLOCKER', 'CRITICAL'] }), config, '9.9'),
+			'&severities=BLOCKER,CRITICAL&statuses=OPEN,REOPENED,CONFIRMED'
+		);
+	});
+
+	test('searches by impact once the server supports impacts', () => {
+		assert.strictEqual(
+			issueFilterParams(filterOf({ softwareQualities: ['SECURITY'], impactSeverities: ['HIGH', 'MEDIUM'] }), config, '10.2'),
+			'&impactSoftwareQualities=SECURITY&impactSeverities=HIGH,MEDIUM&statuses=OPEN,REOPENED,CONFIRMED'
+		);
+	});
+
+	test('leaves out BLOCKER and INFO impacts before SonarQube 10.8', () => {
+		const filter = filterOf({ impactSeverities: ['BLOCKER', 'HIGH', 'INFO'] });
+		assert.match(issueFilterParams(filter, config, '10.7'), /&impactSeverities=HIGH&/);
+		assert.match(issueFilterParams(filter, config, '10.8'), /&impactSeverities=BLOCKER,HIGH,INFO&/);
+		assert.match(issueFilterParams(filter, { ...config, organization: 'acme' }, undefined), /&impactSeverities=BLOCKER,HIGH,INFO&/);
+	});
+
+	test('leaves out empty lists', () => {
+		const params = issueFilterParams(filterOf({ softwareQualities: [], impactSeverities: ['INFO'] }), config, '10.2');
+		assert.strictEqual(params, '&statuses=OPEN,REOPENED,CONFIRMED');
+	});
+
+	test('encodes the values of the parameters', () => {
+		const params = issueFilterParams(filterOf({
+			types: ['BUG', 'CODE_SMELL'],
+			rules: ['typescript:S1523', 'external_eslint_repo:no-bitwise'],
+			tags: ['cwe', 'owasp a1&a2'],
+			author: 'a+b@x.com',
+			assignedToMe: true,
+			createdAfter: '2024-01-31',
+		}), config, '9.9');
+		assert.strictEqual(params, '&severities=BLOCKER&statuses=OPEN,REOPENED,CONFIRMED&types=BUG,CODE_SMELL'
+			+ '&rules=typescript%3AS1523,external_eslint_repo%3Ano-bitwise&tags=cwe,owasp%20a1%26a2'
+			+ '&author=a%2Bb%40x.com&assignees=__me__&createdAfter=2024-01-31');
+	});
+});
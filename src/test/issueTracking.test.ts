@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { analyzedSources, computeLineMapping, remapTextRange, updateTrackedFolder } from '../issueTracking';
+import { SonarConfig } from '../sonarClient';
+
+// Maps every old line to "new line:state", 1-based like the editor shows them
+function describeMapping(oldLines: string[], newLines: string[], maxTrace?: number): string[] {
+	return computeLineMapping(oldLines, newLines, maxTrace).map((mapping) => `${mapping.line + 1}:${mapping.state}`);
+}
+
+suite('Issue Tracking', () => {
+	test('keeps the lines of an unchanged file', () => {
+		assert.deepStrictEqual(describeMapping(['a', 'b', 'c'], ['a', 'b', 'c']), ['1:unchanged', '2:unchanged', '3:unchanged']);
+	});
+
+	test('moves lines down past inserted lines', () => {
+		assert.deepStrictEqual(
+			describeMapping(['a', 'b', 'c'], ['new', 'a', 'b', 'inserted', 'inserted', 'c']),
+			['2:unchanged', '3:unchanged', '6:unchanged']
+		);
+	});
+
+	test('moves lines up past deleted lines and marks the deleted ones', () => {
+		assert.deepStrictEqual(
+			describeMapping(['a', 'b', 'c', 'd', 'e'], ['a', 'd', 'e']),
+			['1:unchanged', '1:deleted', '1:deleted', '2:unchanged', '3:unchanged']
+		);
+	});
+
+	test('marks modified lines as changed in place', () => {
+		assert.deepStrictEqual(
+			describeMapping(['a', 'b', 'c', 'd'], ['a', 'B', 'C', 'd']),
+			['1:unchanged', '2:changed', '3:changed', '4:unchanged']
+		);
+	});
+
+	test('follows the lines around a moved line', () => {
+		// "moved" travels from the top to the bottom, the diff sees it deleted and inserted again
+		const mapping = describeMapping(['moved', 'a', 'b', 'c', 'd'], ['a', 'b', 'c', 'moved', 'd']);
+		assert.deepStrictEqual(mapping.slice(1), ['1:unchanged', '2:unchanged', '3:unchanged', '5:unchanged']);
+		assert.notStrictEqual(mapping[0], '4:unchanged');
+	});
+
+	test('falls back to unique lines beyond the diff limit', () => {
+		const oldLines = Array.from({ length: 200 }, (_, i) => `line ${i}`);
+		// Every other line replaced: too many edits for a trace of 100 cells
+		const newLines = oldLines.map((line, i) => (i % 2 === 0 ? line : `edited ${i}`));
+		newLines.splice(100, 0, 'inserted');
+
+		const mapping = computeLineMapping(oldLines, newLines, 100);
+		assert.deepStrictEqual(mapping[0], { line: 0, state: 'unchanged' });
+		assert.deepStrictEqual(mapping[98], { line: 98, state: 'unchanged' });
+		assert.deepStrictEqual(mapping[102], { line: 103, state: 'unchanged' });
+		assert.strictEqual(mapping[1].state, 'changed');
+		assert.deepStrictEqual(mapping, computeLineMapping(oldLines, newLines));
+	});
+
+	test('grows the fallback anchors into repeated neighbour lines', () => {
+		const oldLines = ['}', 'unique a', '}', '', 'unique b', ''];
+		const newLines = ['x', '}', 'unique a', '}', '', 'unique b', '', 'y'];
+		assert.deepStrictEqual(
+			describeMapping(oldLines, newLines, 1),
+			['2:unchanged', '3:unchanged', '4:unchanged', '5:unchanged', '6:unchanged', '7:unchanged']
+		);
+	});
+
+	test('remaps a text range onto the current lines', () => {
+		const mapping = computeLineMapping(['a', 'b', 'c'], ['new', 'a', 'b', 'c']);
+		assert.deepStrictEqual(
+			remapTextRange({ startLine: 2, startOffset: 4, endLine: 3, endOffset: 1 }, mapping),
+			{ startLine: 3, startOffset: 4, endLine: 4, endOffset: 1 }
+		);
+	});
+
+	test('drops the analyzed sources of the re-analyzed folder only', () => {
+		const folder = (name: string, index: number): vscode.WorkspaceFolder => ({ uri: vscode.Uri.file(path.resolve('/ws', name)), name, index });
+		const app = folder('app', 0);
+		const web = folder('app-web', 1);
+		const config: SonarConfig = { server: 'http://localhost:9000', token: 'token', projectKey: 'demo' };
+		const appFile = path.resolve('/ws/app/src/index.ts');
+		const webFile = path.resolve('/ws/app-web/src/index.ts');
+		updateTrackedFolder(app, config, '2024-01-01');
+		updateTrackedFolder(web, config, '2024-01-01');
+		analyzedSources.set(appFile, ['a']);
+		analyzedSources.set(webFile, ['b']);
+
+		updateTrackedFolder(app, config, '2024-01-02');
+		assert.strictEqual(analyzedSources.has(appFile), false);
+		assert.deepStrictEqual(analyzedSources.get(webFile), ['b']);
+		analyzedSources.clear();
+	});
+});
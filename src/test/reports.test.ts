@@ -0,0 +1,210 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SonarIssue } from '../issueModel';
+import { parseGenericIssueReport, parseSarifReport, readImportedReport, toCsv, toHtml, toMarkdown, toSarif } from '../reports';
+
+const root = path.resolve('/project');
+const appFile = path.join(root, 'src', 'app.ts');
+const utilFile = path.join(root, 'src', 'util.ts');
+
+function exportedPath(filePath: string): string {
+	return vscode.workspace.asRelativePath(filePath, false).split(path.sep).join('/');
+}
+
+suite('Reports', () => {
+	suite('Export', () => {
+		const sonarIssue = new SonarIssue('Remove this "eval", it is unsafe, really', 'typescript:S1523', 'CRITICAL', appFile, 3, {
+			key: 'AYx1',
+			status: 'OPEN',
+			type: 'VULNERABILITY',
+			source: 'SonarQube',
+			textRange: { startLine: 3, startOffset: 2, endLine: 3, endOffset: 6 },
+			flows: [[{ filePath: utilFile, textRange: { startLine: 10, startOffset: 0, endLine: 10, endOffset: 4 }, message: 'input comes from here' }]],
+			impacts: [{ softwareQuality: 'SECURITY', severity: 'HIGH' }],
+			cleanCodeAttribute: 'TRUSTWORTHY',
+		});
+		const eslintIssue = new SonarIssue('Unexpected | in\nmessage', 'no-bitwise', 'MAJOR', utilFile, 7, {
+			source: 'ESLint',
+			textRange: { startLine: 7, startOffset: 0, endLine: 8, endOffset: 1 },
+		});
+
+		test('CSV quotes cells with commas, quotes and line breaks', () => {
+			const lines = toCsv([sonarIssue, eslintIssue]).split('\r\n');
+			assert.strictEqual(lines[0], 'Source,Rule,Severity,Type,Status,File,Start Line,Start Column,End Line,End Column,Message,Key');
+			assert.strictEqual(
+				lines[1],
+				`SonarQube,typescript:S1523,CRITICAL,Vulnerability,OPEN,${exportedPath(appFile)},3,3,3,7,"Remove this ""eval"", it is unsafe, really",AYx1`
+			);
+			// The line break stays inside the quoted cell, records end with CRLF
+			assert.strictEqual(lines[2], `ESLint,no-bitwise,MAJOR,,,${exportedPath(utilFile)},7,1,8,2,"Unexpected | in\nmessage",`);
+			assert.strictEqual(lines[3], '');
+		});
+
+		test('Markdown escapes pipes and line breaks of table cells', () => {
+			const row = toMarkdown([eslintIssue]).split('\n').find((line) => line.includes('no-bitwise'));
+			assert.strictEqual(row, `| MAJOR | ESLint | \`no-bitwise\` | \`${exportedPath(utilFile)}:7:1\` | Unexpected \\| in message |`);
+		});
+
+		test('HTML escapes the messages', () => {
+			const html = toHtml([sonarIssue]);
+			assert.ok(html.includes('<td>Remove this &quot;eval&quot;, it is unsafe, really</td>'));
+			assert.ok(html.includes('<tr class="critical">'));
+		});
+
+		test('SARIF has one run per tool with the issue locations', () => {
+			const report = JSON.parse(toSarif([sonarIssue, eslintIssue]));
+			assert.strictEqual(report.version, '2.1.0');
+			assert.deepStrictEqual(report.runs.map((run: { tool: { driver: { name: string } } }) => run.tool.driver.name), ['SonarQube', 'ESLint']);
+
+			const [result] = report.runs[0].results;
+			assert.strictEqual(result.level, 'error');
+			assert.deepStrictEqual(result.partialFingerprints, { sonarIssueKey: 'AYx1' });
+			assert.deepStrictEqual(result.locations[0].physicalLocation.region, { startLine: 3, startColumn: 3, endLine: 3, endColumn: 7 });
+			// Outside of the workspace folders a file has an absolute URI and no base id
+			assert.deepStrictEqual(result.locations[0].physicalLocation.artifactLocation, { uri: vscode.Uri.file(appFile).toString() });
+		});
+
+		test('SARIF reads back into the same issues', () => {
+			const [sonar, eslint] = parseSarifReport(JSON.parse(toSarif([sonarIssue, eslintIssue])), root, (tool) => tool);
+
+			for (const [parsed, original] of [[sonar, sonarIssue], [eslint, eslintIssue]]) {
+				assert.strictEqual(parsed.message, original.message);
+				assert.strictEqual(parsed.rule, original.rule);
+				assert.strictEqual(parsed.severity, original.severity);
+				assert.strictEqual(parsed.filePath, original.filePath);
+				assert.strictEqual(parsed.line, original.line);
+				assert.strictEqual(parsed.source, original.source);
+				assert.deepStrictEqual(parsed.textRange, original.textRange);
+				assert.deepStrictEqual(parsed.flows, original.flows);
+				assert.deepStrictEqual(parsed.impacts, original.impacts);
+				assert.strictEqual(parsed.type, original.type);
+			}
+			assert.strictEqual(sonar.cleanCodeAttribute, 'TRUSTWORTHY');
+		});
+	});
+
+	suite('Import', () => {
+		const reportFile = path.join(root, 'reports', 'issues.json');
+
+		test('SARIF without runs or results has no issues', () => {
+			assert.deepStrictEqual(parseSarifReport({}, root, (tool) => tool), []);
+			assert.deepStrictEqual(parseSarifReport({ runs: [{}, { tool: {}, results: [] }] }, root, (tool) => tool), []);
+		});
+
+		test('SARIF results without a file location are skipped', () => {
+			const issues = parseSarifReport({
+				runs: [{
+					results: [
+						{ message: { text: 'no locations' } },
+						{ message: { text: 'no artifact' }, locations: [{ physicalLocation: {} }] },
+						{ message: { text: 'kept' }, locations: [{ physicalLocation: { artifactLocation: { uri: 'src/app.ts' } } }] },
+					],
+				}],
+			}, root, (tool) => tool);
+			assert.deepStrictEqual(issues.map((issue) => issue.message), ['kept']);
+		});
+
+		test('SARIF locations that do not decode are skipped', () => {
+			const location = (uri: string) => ({ physicalLocation: { artifactLocation: { uri } } });
+			const [issue] = parseSarifReport({
+				runs: [{
+					results: [
+						{ message: { text: 'bad primary' }, locations: [location('src/100%.ts')] },
+						{
+							message: { text: 'bad step' },
+							locations: [location('src/app%2Ets')],
+							codeFlows: [{ threadFlows: [{ locations: [{ location: location('src/%zz.ts') }, { location: location('src/util.ts') }] }] }],
+						},
+					],
+				}],
+			}, root, (tool) => tool);
+			assert.strictEqual(issue.message, 'bad step');
+			assert.strictEqual(issue.filePath, appFile);
+			assert.deepStrictEqual(issue.flows.map((flow) => flow.map((step) => step.filePath)), [[utilFile]]);
+		});
+
+		test('SARIF fields fall back when they are missing', () => {
+			const [bare, unknownLevel, noColumns] = parseSarifReport({
+				runs: [{
+					results: [
+						{ locations: [{ physicalLocation: { artifactLocation: { uri: 'src/app.ts' } } }] },
+						{ level: 'fatal', locations: [{ physicalLocation: { artifactLocation: { uri: 'src/app.ts' } } }] },
+						{ level: 'note', locations: [{ physicalLocation: { artifactLocation: { uri: 'src/app.ts' }, region: { startLine: 4 } } }] },
+					],
+				}],
+			}, root, (tool) => `${tool} (imported)`);
+
+			assert.strictEqual(bare.message, 'Unknown');
+			assert.strictEqual(bare.rule, 'SARIF');
+			assert.strictEqual(bare.source, 'SARIF (imported)');
+			assert.strictEqual(bare.severity, 'MAJOR');
+			assert.strictEqual(bare.line, 1);
+			assert.strictEqual(bare.filePath, appFile);
+			assert.strictEqual(unknownLevel.severity, 'MAJOR');
+			assert.strictEqual(noColumns.severity, 'MINOR');
+			assert.strictEqual(noColumns.line, 4);
+			assert.strictEqual(noColumns.textRange, undefined);
+		});
+
+		test('generic issues without a primary file are skipped', () => {
+			const issues = parseGenericIssueReport({
+				issues: [
+					{ ruleId: 'no-location' },
+					{ ruleId: 'no-file', primaryLocation: { message: 'somewhere' } },
+					{ ruleId: 'kept', primaryLocation: { filePath: '../src/app.ts', message: 'kept' } },
+				],
+			}, reportFile);
+			assert.deepStrictEqual(issues.map((issue) => issue.rule), ['kept']);
+			// Relative paths resolve against the folder of the report when no workspace folder holds it
+			assert.strictEqual(issues[0].filePath, appFile);
+		});
+
+		test('generic issues fall back when rules and fields are missing', () => {
+			const [unknownRule, impactRule, noColumns] = parseGenericIssueReport({
+				rules: [
+					{ id: 'S1', name: 'Rule name', engineId: 'lint', impacts: [{ softwareQuality: 'RELIABILITY', severity: 'LOW' }, { softwareQuality: 'SECURITY', severity: 'HIGH' }] },
+				],
+				issues: [
+					{ ruleId: 'S404', primaryLocation: { filePath: appFile } },
+					{ ruleId: 'S1', primaryLocation: { filePath: appFile } },
+					{
+						primaryLocation: { filePath: appFile, message: 'whole lines', textRange: { startLine: 5, endLine: 6 } },
+						secondaryLocations: [{ message: 'no file' }, { filePath: utilFile, textRange: { startLine: 2, startColumn: 0 } }],
+					},
+				],
+			}, reportFile);
+
+			assert.strictEqual(unknownRule.message, 'Unknown');
+			assert.strictEqual(unknownRule.severity, 'MAJOR');
+			assert.strictEqual(unknownRule.source, 'Generic (imported)');
+			assert.strictEqual(unknownRule.line, 1);
+			assert.strictEqual(impactRule.message, 'Rule name');
+			assert.strictEqual(impactRule.severity, 'CRITICAL');
+			assert.strictEqual(impactRule.source, 'lint (imported)');
+			assert.strictEqual(noColumns.rule, 'Unknown');
+			assert.strictEqual(noColumns.line, 5);
+			assert.strictEqual(noColumns.textRange, undefined);
+			assert.deepStrictEqual(noColumns.flows, [[
+				{ filePath: utilFile, textRange: { startLine: 2, startOffset: 0, endLine: 2, endOffset: 0 }, message: '' },
+			]]);
+		});
+
+		test('rejects JSON that is not an issue report', () => {
+			const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'sonar-reports-test-'));
+			try {
+				const notAReport = path.join(folder, 'package.json');
+				fs.writeFileSync(notAReport, JSON.stringify({ name: 'demo', issues: 'none' }));
+				assert.throws(() => readImportedReport(notAReport), /not a SARIF or Sonar generic issue report/);
+
+				const truncated = path.join(folder, 'truncated.sarif');
+				fs.writeFileSync(truncated, '{"runs": [');
+				assert.throws(() => readImportedReport(truncated), SyntaxError);
+			} finally {
+				fs.rmSync(folder, { recursive: true, force: true });
+			}
+		});
+	});
+});
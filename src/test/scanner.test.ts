@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { quoteShellArg, readReportTask, waitForCeTask } from '../scanner';
+import { SonarConfig } from '../sonarClient';
+
+suite('Scanner', () => {
+	suite('readReportTask', () => {
+		let folder: string;
+
+		setup(() => {
+			folder = fs.mkdtempSync(path.join(os.tmpdir(), 'sonar-scanner-test-'));
+		});
+
+		teardown(() => {
+			fs.rmSync(folder, { recursive: true, force: true });
+		});
+
+		function writeReportTask(relative: string, content: string) {
+			const file = path.join(folder, relative);
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(file, content);
+		}
+
+		test('reads the properties, values may contain =', () => {
+			writeReportTask('.scannerwork/report-task.txt', [
+				'# written by the scanner',
+				'projectKey=demo',
+				'ceTaskId=AYx1',
+				'dashboardUrl=http://localhost:9000/dashboard?id=demo&branch=main',
+				'',
+			].join('\n'));
+
+			assert.deepStrictEqual(readReportTask(folder, 0), {
+				projectKey: 'demo',
+				ceTaskId: 'AYx1',
+				dashboardUrl: 'http://localhost:9000/dashboard?id=demo&branch=main',
+			});
+		});
+
+		test('finds the report of Maven and Gradle', () => {
+			writeReportTask('target/sonar/report-task.txt', 'ceTaskId=maven\r\n');
+			assert.strictEqual(readReportTask(folder, 0)?.ceTaskId, 'maven');
+		});
+
+		test('ignores a report left over from an earlier run', () => {
+			writeReportTask('.scannerwork/report-task.txt', 'ceTaskId=old\n');
+			assert.strictEqual(readReportTask(folder, Date.now() + 60000), undefined);
+		});
+	});
+
+	suite('waitForCeTask', () => {
+		let server: http.Server;
+		let config: SonarConfig;
+		let statuses: string[];
+		const requests: string[] = [];
+
+		setup(async () => {
+			requests.length = 0;
+			server = http.createServer((req, res) => {
+				requests.push(req.url || '');
+				// The last status repeats once the list is used up
+				const status = statuses.length > 1 ? statuses.shift()! : statuses[0];
+				res.setHeader('Content-Type', 'application/json');
+				res.end(JSON.stringify({
+					task: { id: 'AYx1', status, errorMessage: status === 'FAILED' ? 'Unsupported language' : undefined },
+				}));
+			});
+			await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+			const { port } = server.address() as { port: number };
+			config = { server: `http://127.0.0.1:${port}`, token: 'token', projectKey: 'demo' };
+		});
+
+		teardown(async () => {
+			await new Promise((resolve) => server.close(resolve));
+		});
+
+		test('polls until the task succeeded', async () => {
+			statuses = ['PENDING', 'IN_PROGRESS', 'SUCCESS'];
+			await waitForCeTask(config, 'AYx1', new vscode.CancellationTokenSource().token, 1);
+			assert.deepStrictEqual(requests, ['/api/ce/task?id=AYx1', '/api/ce/task?id=AYx1', '/api/ce/task?id=AYx1']);
+		});
+
+		test('fails with the error message of a failed task', async () => {
+			statuses = ['PENDING', 'FAILED'];
+			await assert.rejects(waitForCeTask(config, 'AYx1', new vscode.CancellationTokenSource().token, 1), /Unsupported language/);
+		});
+
+		test('fails when the task was canceled on the server', async () => {
+			statuses = ['CANCELED'];
+			await assert.rejects(waitForCeTask(config, 'AYx1', new vscode.CancellationTokenSource().token, 1), /The background task was canceled/);
+		});
+
+		test('stops waiting as soon as it is cancelled', async () => {
+			statuses = ['PENDING'];
+			const cancellation = new vscode.CancellationTokenSource();
+			// A poll interval far longer than the test may take, the wait must end with the cancellation
+			const waiting = waitForCeTask(config, 'AYx1', cancellation.token, 60000);
+			while (requests.length === 0) {
+				await new Promise((resolve) => setTimeout(resolve, 5));
+			}
+			cancellation.cancel();
+			await waiting;
+			assert.strictEqual(requests.length, 1);
+		});
+	});
+
+	test('quotes arguments for the shell of the platform', () => {
+		assert.strictEqual(quoteShellArg('-Dsonar.sources=src'), '-Dsonar.sources=src');
+		assert.strictEqual(quoteShellArg('-Dsonar.projectBaseDir=/home/me/My Project', 'linux'), "'-Dsonar.projectBaseDir=/home/me/My Project'");
+		assert.strictEqual(quoteShellArg("-Dsonar.projectName=Bob's app", 'darwin'), "'-Dsonar.projectName=Bob'\\''s app'");
+		assert.strictEqual(quoteShellArg('-Dsonar.projectBaseDir=C:\\My Project', 'win32'), '"-Dsonar.projectBaseDir=C:\\My Project"');
+	});
+});
@@ -0,0 +1,195 @@
+import * as vscode from "vscode";
+import { SonarIssue, describeImpacts, formatStatus, isImpactsSupported } from "./issueModel";
+import { SonarConfig, branchParams, sonarFetch, sonarGet, sonarPost } from "./sonarClient";
+import { trackedFolders } from "./issueTracking";
+import { getSonarConfigFor } from "./config";
+import {
+  IssueChange, IssueComment, escapeHtml, formatDate, issueDetailsScript, renderIssueChange, renderIssueComment, renderWebviewHtml,
+} from "./webviews";
+
+// Triage of SonarQube issues: status changes, assignment and comments, from the Issues view
+// and from the Issue Details panel, which shows the changelog and the comments of one issue.
+
+const transitionLabels: Record<string, string> = {
+  confirm: "Confirm",
+  unconfirm: "Unconfirm",
+  reopen: "Reopen",
+  resolve: "Resolve as Fixed",
+  falsepositive: "Mark as False Positive",
+  wontfix: "Mark as Won't Fix",
+  accept: "Accept",
+};
+
+const resolvedStatuses = ["RESOLVED", "CLOSED"];
+
+// The Issues view as triage updates it. Triage changes issues without a new analysis, so the
+// extension also drops the offline cache there, and the diagnostic of a removed issue.
+export interface TriagedIssues {
+  updateIssue(issue: SonarIssue): void;
+  // The server no longer lists the issue as open
+  removeIssue(issue: SonarIssue): void;
+}
+
+async function fetchCurrentUserLogin(server: string, token: string): Promise<string> {
+  const res = await sonarGet({ server, token }, "/api/users/current");
+  const data = await res.json();
+  return data.login;
+}
+
+// Pull the issue back from the server so the tree reflects its new state
+async function reloadIssue(server: string, token: string, issue: SonarIssue, issues: TriagedIssues) {
+  const res = await sonarFetch({ server, token }, `/api/issues/search?issues=${encodeURIComponent(issue.key!)}&additionalFields=transitions`);
+  const data = res.ok ? await res.json() : undefined;
+  const updated = data?.issues?.[0];
+
+  if (!updated || resolvedStatuses.includes(updated.status)) {
+    issues.removeIssue(issue);
+    return;
+  }
+  issue.status = updated.status;
+  issue.assignee = updated.assignee;
+  issue.transitions = updated.transitions || [];
+  issues.updateIssue(issue);
+}
+
+export async function transitionIssue(issue: SonarIssue, issues: TriagedIssues) {
+  const config = await getSonarConfigFor(issue.filePath);
+  if (!config || !issue.key) { return; }
+
+  if (issue.transitions.length === 0) {
+    vscode.window.showInformationMessage("No status changes are available for this issue.");
+    return;
+  }
+  const picked = await vscode.window.showQuickPick(
+    issue.transitions.map((transition) => ({ label: transitionLabels[transition] || transition, transition })),
+    { placeHolder: `Change status of "${issue.message}"` }
+  );
+  if (!picked) { return; }
+
+  await sonarPost(config, "/api/issues/do_transition", { issue: issue.key, transition: picked.transition });
+  await reloadIssue(config.server, config.token, issue, issues);
+}
+
+export async function assignIssue(issue: SonarIssue, issues: TriagedIssues) {
+  const config = await getSonarConfigFor(issue.filePath);
+  if (!config || !issue.key) { return; }
+
+  const choice = await vscode.window.showQuickPick(
+    ["Assign to me", "Assign to user...", "Unassign"],
+    { placeHolder: issue.assignee ? `Currently assigned to ${issue.assignee}` : "Currently unassigned" }
+  );
+  if (!choice) { return; }
+
+  let assignee = "";
+  if (choice === "Assign to me") {
+    assignee = await fetchCurrentUserLogin(config.server, config.token);
+  } else if (choice === "Assign to user...") {
+    const login = await vscode.window.showInputBox({ prompt: "SonarQube login of the assignee", value: issue.assignee });
+    if (!login) { return; }
+    assignee = login;
+  }
+
+  await sonarPost(config, "/api/issues/assign", { issue: issue.key, assignee });
+  await reloadIssue(config.server, config.token, issue, issues);
+}
+
+export async function addIssueComment(issue: SonarIssue, issues: TriagedIssues) {
+  const config = await getSonarConfigFor(issue.filePath);
+  if (!config || !issue.key) { return; }
+
+  const text = await vscode.window.showInputBox({ prompt: `Comment on "${issue.message}"`, ignoreFocusOut: true });
+  if (!text) { return; }
+
+  await sonarPost(config, "/api/issues/add_comment", { issue: issue.key, text });
+  await reloadIssue(config.server, config.token, issue, issues);
+  vscode.window.showInformationMessage("Comment added.");
+}
+
+let issueDetailsPanel: vscode.WebviewPanel | undefined;
+// Issue shown in the panel, the target of its comment actions
+let issueDetailsTarget: SonarIssue | undefined;
+
+export async function showIssueDetails(issue: SonarIssue) {
+  const config = await getSonarConfigFor(issue.filePath);
+  if (!config || !issue.key) { return; }
+
+  const organization = config.organization ? `&organization=${encodeURIComponent(config.organization)}` : "";
+  const [searchRes, changelogRes] = await Promise.all([
+    sonarGet(config, `/api/issues/search?issues=${encodeURIComponent(issue.key)}&additionalFields=comments${organization}`),
+    sonarGet(config, `/api/issues/changelog?issue=${encodeURIComponent(issue.key)}`),
+  ]);
+  const details = (await searchRes.json()).issues?.[0];
+  if (!details) { throw new Error(`Issue ${issue.key} no longer exists on the server`); }
+  const changelog: IssueChange[] = (await changelogRes.json()).changelog || [];
+  const comments: IssueComment[] = details.comments || [];
+
+  const facts: [string, string | undefined][] = [
+    ["Rule", details.rule],
+    ["Severity", isImpactsSupported() && issue.impacts.length > 0 ? describeImpacts(issue) : formatStatus(details.severity || issue.severity)],
+    ["Status", [details.status, details.resolution].filter(Boolean).map(formatStatus).join(" · ")],
+    ["Author", details.author],
+    ["Assignee", details.assignee],
+    ["Created", formatDate(details.creationDate)],
+    ["Updated", formatDate(details.updateDate)],
+    ["Effort", details.effort || details.debt],
+    ["Tags", (details.tags || []).join(", ")],
+    ["Location", `${vscode.workspace.asRelativePath(issue.filePath)}:${issue.currentLine}`],
+  ];
+  const content = `<h1>${escapeHtml(details.message || issue.message)}</h1>
+<table>${facts.filter(([, value]) => value).map(([label, value]) => `<tr><td class="meta">${label}</td><td>${escapeHtml(value!)}</td></tr>`).join("")}</table>
+<p><button id="open">Open in Browser</button></p>
+<h2>Changelog</h2>
+${changelog.length > 0 ? `<ul>${[...changelog].reverse().map(renderIssueChange).join("")}</ul>` : "<p class=\"meta\">No changes yet.</p>"}
+<h2>Comments</h2>
+${comments.map(renderIssueComment).join("") || "<p class=\"meta\">No comments yet.</p>"}
+<form data-command="addComment"><textarea rows="4" placeholder="Add a comment (Markdown)"></textarea><br><button type="submit">Comment</button></form>`;
+
+  issueDetailsTarget = issue;
+  if (!issueDetailsPanel) {
+    issueDetailsPanel = vscode.window.createWebviewPanel("sonarIssueDetails", "Issue Details", vscode.ViewColumn.Beside, { enableScripts: true });
+    issueDetailsPanel.onDidDispose(() => {
+      issueDetailsPanel = undefined;
+      issueDetailsTarget = undefined;
+    });
+    issueDetailsPanel.webview.onDidReceiveMessage((message) => handleIssueDetailsMessage(message).catch((error: unknown) => {
+      vscode.window.showErrorMessage(`Failed to update the issue: ${error instanceof Error ? error.message : String(error)}`);
+    }));
+  } else {
+    issueDetailsPanel.reveal(vscode.ViewColumn.Beside, true);
+  }
+  issueDetailsPanel.title = `Issue: ${issue.rule}`;
+  issueDetailsPanel.webview.html = renderWebviewHtml(issueDetailsPanel.webview, content, issueDetailsScript);
+}
+
+async function handleIssueDetailsMessage(message: { command: string; comment?: string; text?: string }) {
+  const issue = issueDetailsTarget;
+  if (!issue) { return; }
+  const config = await getSonarConfigFor(issue.filePath);
+  if (!config || !issue.key) { return; }
+
+  switch (message.command) {
+    case "open": {
+      const url = issueUrl(issue, config);
+      if (url) { await vscode.env.openExternal(vscode.Uri.parse(url)); }
+      return;
+    }
+    case "addComment":
+      await sonarPost(config, "/api/issues/add_comment", { issue: issue.key, text: message.text || "" });
+      break;
+    case "editComment":
+      await sonarPost(config, "/api/issues/edit_comment", { comment: message.comment || "", text: message.text || "" });
+      break;
+    default:
+      return;
+  }
+  await showIssueDetails(issue);
+}
+
+// Link to the issue in the SonarQube UI, on the branch or pull request it was fetched for
+// connection is used when the folder's issues were not fetched yet, without branch then
+export function issueUrl(issue: SonarIssue, connection?: SonarConfig): string | undefined {
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(issue.filePath));
+  const config = (folder ? trackedFolders.get(folder.uri.toString())?.config : undefined) || connection;
+  if (!issue.key || !config) { return undefined; }
+  return `${config.server}/project/issues?id=${encodeURIComponent(config.projectKey)}&open=${encodeURIComponent(issue.key)}${branchParams(config)}`;
+}
@@ -0,0 +1,155 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import type { Rule } from "eslint";
+import { formatStatus } from "./issueModel";
+
+// HTML of the rule description, issue details and hotspot panels. The panels themselves live in rules.ts,
+// triage.ts and hotspots.ts, this module only renders their content. Text is escaped, the HTML bodies SonarQube returns are not.
+
+export interface IssueComment {
+  key: string;
+  login: string;
+  htmlText: string;
+  markdown?: string;
+  updatable?: boolean;
+  createdAt: string;
+}
+
+export interface IssueChange {
+  user?: string;
+  userName?: string;
+  creationDate: string;
+  diffs: { key: string; oldValue?: string; newValue?: string }[];
+}
+
+// Runs in the webview: comment forms post their text back to the extension
+export const issueDetailsScript = `
+const vscode = acquireVsCodeApi();
+document.querySelectorAll("[data-edit]").forEach((button) => button.addEventListener("click", () => {
+  document.getElementById("edit-" + button.dataset.edit).hidden = false;
+  button.hidden = true;
+}));
+document.querySelectorAll("form").forEach((form) => form.addEventListener("submit", (event) => {
+  event.preventDefault();
+  const text = form.querySelector("textarea").value.trim();
+  if (text) {
+    vscode.postMessage({ command: form.dataset.command, comment: form.dataset.comment, text });
+  }
+}));
+document.getElementById("open").addEventListener("click", () => vscode.postMessage({ command: "open" }));
+`;
+
+export function formatDate(date: string | undefined): string {
+  return date ? new Date(date).toLocaleString() : "";
+}
+
+export function renderIssueChange(change: IssueChange): string {
+  const diffs = change.diffs
+    .map((diff) => `${escapeHtml(formatStatus(diff.key))}: ${escapeHtml(diff.oldValue || "–")} → ${escapeHtml(diff.newValue || "–")}`)
+    .join("<br>");
+  return `<li><span class="meta">${escapeHtml(formatDate(change.creationDate))} · ${escapeHtml(change.userName || change.user || "SonarQube")}</span><br>${diffs}</li>`;
+}
+
+export function renderIssueComment(comment: IssueComment): string {
+  const edit = comment.updatable
+    ? `<button data-edit="${escapeHtml(comment.key)}">Edit</button>
+<form id="edit-${escapeHtml(comment.key)}" data-command="editComment" data-comment="${escapeHtml(comment.key)}" hidden>
+<textarea rows="4">${escapeHtml(comment.markdown || "")}</textarea><br><button type="submit">Save</button>
+</form>`
+    : "";
+  return `<div class="comment"><p><strong>${escapeHtml(comment.login)}</strong> <span class="meta">${escapeHtml(formatDate(comment.createdAt))}</span></p>${comment.htmlText}${edit}</div>`;
+}
+
+export interface SonarRule {
+  key: string;
+  name: string;
+  severity?: string;
+  type?: string;
+  lang?: string;
+  sysTags?: string[];
+  htmlDesc?: string;
+  descriptionSections?: { key: string; content: string }[];
+}
+
+const ruleSectionTitles: Record<string, string> = {
+  introduction: "",
+  root_cause: "Why is this an issue?",
+  assess_the_problem: "What is the potential impact?",
+  how_to_fix: "How can I fix it?",
+  resources: "Resources",
+};
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderSonarRule(rule: SonarRule): string {
+  const meta = [rule.type, rule.severity, rule.lang, ...(rule.sysTags || [])].filter(Boolean).map((m) => escapeHtml(m!));
+
+  let body: string;
+  if (rule.descriptionSections?.length) {
+    // Rules with multiple contexts (frameworks) repeat how_to_fix once per context, show each
+    body = rule.descriptionSections
+      .map((section) => {
+        const title = ruleSectionTitles[section.key] ?? "";
+        return `${title ? `<h2>${escapeHtml(title)}</h2>` : ""}${section.content}`;
+      })
+      .join("\n");
+  } else {
+    body = rule.htmlDesc || "<p>No description available for this rule.</p>";
+  }
+
+  return `<h1>${escapeHtml(rule.name)}</h1>
+<p class="meta">${escapeHtml(rule.key)}${meta.length ? ` · ${meta.join(" · ")}` : ""}</p>
+${body}`;
+}
+
+export function renderEslintRule(ruleId: string, meta: Rule.RuleMetaData | undefined): string {
+  if (!meta) {
+    return `<h1>${escapeHtml(ruleId)}</h1><p>No metadata is available for this rule. Run a Local Analysis scope to load it.</p>`;
+  }
+  const details = [meta.type, meta.fixable ? "fixable" : undefined, meta.deprecated ? "deprecated" : undefined]
+    .filter(Boolean)
+    .map((d) => escapeHtml(d!));
+  const url = meta.docs?.url;
+
+  return `<h1>${escapeHtml(ruleId)}</h1>
+<p class="meta">ESLint${details.length ? ` · ${details.join(" · ")}` : ""}</p>
+<p>${escapeHtml(meta.docs?.description || "No description available for this rule.")}</p>
+${meta.replacedBy?.length ? `<p>Replaced by: ${meta.replacedBy.map((r) => `<code>${escapeHtml(r)}</code>`).join(", ")}</p>` : ""}
+${url ? `<h2>Resources</h2><p><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></p>` : ""}`;
+}
+
+// Rules of further analyzers and imported reports, whose descriptions are not available here
+export function renderExternalRule(ruleId: string, source: string): string {
+  return `<h1>${escapeHtml(ruleId)}</h1>
+<p class="meta">${escapeHtml(source)}</p>
+<p>No description is available for rules reported by ${escapeHtml(source)}.</p>`;
+}
+
+// script runs with a nonce, panels without it stay static
+export function renderWebviewHtml(webview: vscode.Webview, content: string, script?: string): string {
+  const nonce = crypto.randomBytes(16).toString("base64");
+  const csp = `default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; img-src ${webview.cspSource} https: data:;${script ? ` script-src 'nonce-${nonce}';` : ""}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<style>
+  body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); line-height: 1.5; padding: 0 16px; }
+  .meta { color: var(--vscode-descriptionForeground); }
+  pre { background: var(--vscode-textCodeBlock-background); padding: 8px; overflow-x: auto; }
+  code { font-family: var(--vscode-editor-font-family); }
+</style>
+</head>
+<body>
+${content}
+${script ? `<script nonce="${nonce}">${script}</script>` : ""}
+</body>
+</html>`;
+}